@@ -0,0 +1,71 @@
+// lib/confidenceHistogram.ts
+// AFMprob distribution of a graph's edges, split into known interactions and new ones (allDBs
+// "none"), for the viewer's confidence histogram. The sorted values are kept alongside the bins
+// so the number of edges inside any range is exact, not rounded to bin edges.
+import { NOVEL_KEY } from "./provenance";
+
+export type HistogramBin = { x0: number; x1: number; known: number; novel: number };
+
+export type ConfidenceHistogram = {
+  bins: HistogramBin[];
+  // Sorted AFMprob values
+  known: Float64Array;
+  novel: Float64Array;
+  // Edges without an AFMprob; no confidence cutoff removes them
+  unscored: { known: number; novel: number };
+};
+
+export const DEFAULT_BIN_COUNT = 40;
+
+const isNovel = (allDBs: string | undefined) => (allDBs || "").trim().toLowerCase() === NOVEL_KEY;
+
+// AFMprob is a probability, so the domain is always [0, 1]
+export function buildConfidenceHistogram(edges: Iterable<{ afmprob?: number; allDBs?: string }>, binCount = DEFAULT_BIN_COUNT): ConfidenceHistogram {
+  const known: number[] = [];
+  const novel: number[] = [];
+  const unscored = { known: 0, novel: 0 };
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({ x0: i / binCount, x1: (i + 1) / binCount, known: 0, novel: 0 }));
+  for (const e of edges) {
+    const nov = isNovel(e.allDBs);
+    const ap = e.afmprob;
+    if (typeof ap !== "number" || Number.isNaN(ap)) {
+      if (nov) unscored.novel++;
+      else unscored.known++;
+      continue;
+    }
+    (nov ? novel : known).push(ap);
+    const bin = bins[Math.min(binCount - 1, Math.max(0, Math.floor(ap * binCount)))];
+    if (nov) bin.novel++;
+    else bin.known++;
+  }
+  return { bins, known: Float64Array.from(known).sort(), novel: Float64Array.from(novel).sort(), unscored };
+}
+
+// Index of the first value >= v
+function lowerBound(values: Float64Array, v: number): number {
+  let lo = 0, hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] < v) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Index of the first value > v
+function upperBound(values: Float64Array, v: number): number {
+  let lo = 0, hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] <= v) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Edges kept by a confidence range [min, max] (inclusive, like the viewer's filter)
+export function countInRange(h: ConfidenceHistogram, min: number, max: number): { edges: number; novel: number } {
+  const inRange = (values: Float64Array) => Math.max(0, upperBound(values, max) - lowerBound(values, min));
+  const novel = inRange(h.novel) + h.unscored.novel;
+  return { edges: inRange(h.known) + h.unscored.known + novel, novel };
+}
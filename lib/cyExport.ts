@@ -0,0 +1,201 @@
+// lib/cyExport.ts
+// Figure export for the Cytoscape-based viewers (KeggPathwayViewer, PathwayNeighborGraph).
+// The SVG is rebuilt from the rendered styles (overlay colors, stripe images, highlights,
+// labels) rather than screenshotted, and the PNG is a rasterization of that same SVG so both
+// formats match and carry the legend.
+import type cytoscape from "cytoscape";
+
+export type LegendItem =
+  // A line/box swatch: "Novel interaction", "Highlighted"
+  | { label: string; color: string; shape?: "line" | "box" }
+  // A color ramp with tick labels under it: diverging expression scales
+  | { label: string; gradient: string[]; ticks: string[] };
+
+export type FigureOptions = {
+  padding?: number;
+  // Match the on-screen theme so label colors keep their contrast
+  background?: string;
+  foreground?: string;
+  legend?: LegendItem[];
+  title?: string;
+};
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+const fmt = (n: number) => (Math.round(n * 100) / 100).toString();
+const px = (v: unknown, fallback = 0) => {
+  const n = parseFloat(String(v));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+function shapePath(shape: string, x: number, y: number, w: number, h: number): string {
+  const x0 = x - w / 2, y0 = y - h / 2;
+  if (shape === "ellipse") return `<ellipse cx="${fmt(x)}" cy="${fmt(y)}" rx="${fmt(w / 2)}" ry="${fmt(h / 2)}"`;
+  const r = shape.includes("round") ? Math.min(w, h) * 0.2 : 0;
+  return `<rect x="${fmt(x0)}" y="${fmt(y0)}" width="${fmt(w)}" height="${fmt(h)}"${r ? ` rx="${fmt(r)}"` : ""}`;
+}
+
+function edgeSvg(e: cytoscape.EdgeSingular, dx: number, dy: number): string {
+  const s = e.sourceEndpoint();
+  const t = e.targetEndpoint();
+  const x1 = s.x + dx, y1 = s.y + dy, x2 = t.x + dx, y2 = t.y + dy;
+  const width = px(e.style("width"), 1);
+  const color = String(e.style("line-color"));
+  const lineStyle = String(e.style("line-style"));
+  const dash = lineStyle === "dashed" ? ` stroke-dasharray="${fmt(width * 3)},${fmt(width * 2)}"` : lineStyle === "dotted" ? ` stroke-dasharray="${fmt(width)},${fmt(width * 1.5)}"` : "";
+  const opacity = e.effectiveOpacity();
+  let out = `<g opacity="${fmt(opacity)}"><line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" stroke="${color}" stroke-width="${fmt(width)}"${dash}/>`;
+
+  const arrow = String(e.style("target-arrow-shape"));
+  const len = Math.hypot(x2 - x1, y2 - y1);
+  if (arrow !== "none" && len > 0) {
+    const ux = (x2 - x1) / len, uy = (y2 - y1) / len;
+    const size = Math.max(6, width * 3);
+    const arrowColor = String(e.style("target-arrow-color"));
+    if (arrow === "tee") {
+      const hx = -uy * size * 0.6, hy = ux * size * 0.6;
+      out += `<line x1="${fmt(x2 + hx)}" y1="${fmt(y2 + hy)}" x2="${fmt(x2 - hx)}" y2="${fmt(y2 - hy)}" stroke="${arrowColor}" stroke-width="${fmt(Math.max(2, width))}"/>`;
+    } else {
+      const bx = x2 - ux * size, by = y2 - uy * size;
+      const hx = -uy * size * 0.5, hy = ux * size * 0.5;
+      out += `<polygon points="${fmt(x2)},${fmt(y2)} ${fmt(bx + hx)},${fmt(by + hy)} ${fmt(bx - hx)},${fmt(by - hy)}" fill="${arrowColor}"/>`;
+    }
+  }
+
+  const label = String(e.style("label") || "");
+  if (label) {
+    const m = e.midpoint();
+    const fs = px(e.style("font-size"), 10);
+    out += `<text x="${fmt(m.x + dx)}" y="${fmt(m.y + dy)}" font-size="${fmt(fs)}" fill="${e.style("color")}" text-anchor="middle" dominant-baseline="central" paint-order="stroke" stroke="#ffffff" stroke-width="3">${esc(label)}</text>`;
+  }
+  return `${out}</g>`;
+}
+
+function nodeSvg(n: cytoscape.NodeSingular, dx: number, dy: number, clipId: string): string {
+  const p = n.position();
+  const x = p.x + dx, y = p.y + dy;
+  const w = n.width(), h = n.height();
+  const shape = String(n.style("shape"));
+  const fill = String(n.style("background-color"));
+  const borderW = px(n.style("border-width"));
+  const border = String(n.style("border-color"));
+  const opacity = n.effectiveOpacity();
+  const base = shapePath(shape, x, y, w, h);
+  let out = `<g opacity="${fmt(opacity)}">`;
+  out += `${base} fill="${fill}"/>`;
+
+  // Stripe overlays are set as data-URI background images
+  const img = n.data("overlaySvg") as string | undefined;
+  if (img) {
+    out += `<clipPath id="${clipId}">${base}/></clipPath>`;
+    out += `<image href="${esc(img)}" x="${fmt(x - w / 2)}" y="${fmt(y - h / 2)}" width="${fmt(w)}" height="${fmt(h)}" preserveAspectRatio="none" clip-path="url(#${clipId})"/>`;
+  }
+  if (borderW > 0) out += `${base} fill="none" stroke="${border}" stroke-width="${fmt(borderW)}"/>`;
+
+  const label = String(n.style("label") || "");
+  if (label) {
+    const fs = px(n.style("font-size"), 10);
+    const valign = String(n.style("text-valign"));
+    const ty = valign === "center" ? y : valign === "bottom" ? y + h / 2 + fs : y - h / 2 - fs * 0.4;
+    const weight = String(n.style("font-weight"));
+    out += `<text x="${fmt(x)}" y="${fmt(ty)}" font-size="${fmt(fs)}" font-weight="${esc(weight)}" fill="${n.style("color")}" fill-opacity="${fmt(px(n.style("text-opacity"), 1))}" text-anchor="middle" dominant-baseline="central">${esc(label)}</text>`;
+  }
+  return `${out}</g>`;
+}
+
+const LEGEND_ROW = 22;
+const legendRowHeight = (item: LegendItem) => ("gradient" in item ? LEGEND_ROW * 1.6 : LEGEND_ROW);
+
+function legendSvg(items: LegendItem[], x: number, y: number, fg: string): string {
+  let out = `<g font-size="11" fill="${fg}">`;
+  let ry = y;
+  items.forEach((item, i) => {
+    if ("gradient" in item) {
+      const gid = `legend-grad-${i}`;
+      const stops = item.gradient.map((c, k) => `<stop offset="${fmt((k / Math.max(1, item.gradient.length - 1)) * 100)}%" stop-color="${c}"/>`).join("");
+      out += `<defs><linearGradient id="${gid}">${stops}</linearGradient></defs>`;
+      out += `<rect x="${x}" y="${ry}" width="120" height="10" fill="url(#${gid})" stroke="#9ca3af" stroke-width="0.5"/>`;
+      item.ticks.forEach((t, k) => {
+        const tx = x + (item.ticks.length > 1 ? (k / (item.ticks.length - 1)) * 120 : 60);
+        out += `<text x="${fmt(tx)}" y="${ry + 22}" font-size="9" text-anchor="middle">${esc(t)}</text>`;
+      });
+      out += `<text x="${x + 130}" y="${ry + 9}">${esc(item.label)}</text>`;
+    } else if (item.shape === "box") {
+      out += `<rect x="${x}" y="${ry}" width="14" height="10" fill="${item.color}"/><text x="${x + 22}" y="${ry + 9}">${esc(item.label)}</text>`;
+    } else {
+      out += `<line x1="${x}" y1="${ry + 5}" x2="${x + 24}" y2="${ry + 5}" stroke="${item.color}" stroke-width="3"/><text x="${x + 32}" y="${ry + 9}">${esc(item.label)}</text>`;
+    }
+    ry += legendRowHeight(item);
+  });
+  return `${out}</g>`;
+}
+
+export const prefersDarkFigure = (): Pick<FigureOptions, "background" | "foreground"> =>
+  typeof window !== "undefined" && typeof window.matchMedia === "function" && window.matchMedia("(prefers-color-scheme: dark)").matches
+    ? { background: "#111827", foreground: "#e5e7eb" }
+    : { background: "#ffffff", foreground: "#111827" };
+
+// Serialize the visible elements of `cy` as a standalone SVG document.
+export function cyToSvg(cy: cytoscape.Core, opts: FigureOptions = {}): { svg: string; width: number; height: number } {
+  const pad = opts.padding ?? 20;
+  const visible = cy.elements(":visible");
+  const bb = visible.length ? visible.boundingBox({ includeLabels: true }) : { x1: 0, y1: 0, w: 100, h: 100 };
+  const titleH = opts.title ? 24 : 0;
+  const legend = opts.legend || [];
+  const legendH = legend.reduce((sum, item) => sum + legendRowHeight(item), 0) + (legend.length ? pad : 0);
+  // Leave room for legend labels on small graphs
+  const width = Math.ceil(Math.max(bb.w + pad * 2, legend.length ? 320 : 0));
+  const height = Math.ceil(bb.h + pad * 2 + titleH + legendH);
+  const dx = pad - bb.x1, dy = pad + titleH - bb.y1;
+
+  const parts: string[] = [];
+  parts.push(`<rect width="100%" height="100%" fill="${opts.background || "#ffffff"}"/>`);
+  const fg = opts.foreground || "#111827";
+  if (opts.title) parts.push(`<text x="${pad}" y="${pad + 4}" font-size="14" font-weight="600" fill="${fg}">${esc(opts.title)}</text>`);
+  cy.edges(":visible").forEach((e) => { parts.push(edgeSvg(e, dx, dy)); });
+  cy.nodes(":visible").forEach((n, i) => { parts.push(nodeSvg(n, dx, dy, `node-clip-${i}`)); });
+  if (legend.length) parts.push(legendSvg(legend, pad, Math.ceil(bb.h + pad * 2 + titleH), fg));
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">${parts.join("")}</svg>`;
+  return { svg, width, height };
+}
+
+// Rasterize an SVG string at `scale`x, capped so the canvas stays within browser limits.
+export async function svgToPng(svg: string, width: number, height: number, scale = 3): Promise<Blob> {
+  const s = Math.max(0.1, Math.min(scale, 16000 / Math.max(width, height)));
+  const img = new Image();
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("Could not render SVG"));
+      img.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * s);
+    canvas.height = Math.round(height * s);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.scale(s, s);
+    ctx.drawImage(img, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) => canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))), "image/png"));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export async function exportFigure(cy: cytoscape.Core, format: "svg" | "png", filename: string, opts: FigureOptions = {}) {
+  const { svg, width, height } = cyToSvg(cy, opts);
+  if (format === "svg") downloadBlob(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }), `${filename}.svg`);
+  else downloadBlob(await svgToPng(svg, width, height), `${filename}.png`);
+}
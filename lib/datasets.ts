@@ -0,0 +1,143 @@
+// lib/datasets.ts
+// Registry of prediction runs the graph viewer can switch between. Each registered dataset is a
+// directory under DATASETS_DIR (default: data/datasets) written by
+// `scripts/tsv-to-graph.js --dataset <id>`:
+//
+//   <id>/dataset.json        metadata (name, description, createdAt, source TSV, thresholds, ...)
+//   <id>/graph.json          default view
+//   <id>/graph_locality.json locality view
+//   <id>/graph.bin, graph_locality.bin  optional binary copies (scripts/graph-binary.js)
+//
+// The legacy files in public/ (graph.json, graph_<org>.json) are listed too, so existing
+// setups keep working without being re-imported.
+import { promises as fs } from "fs";
+import path from "path";
+import { DEFAULT_ORGANISM, isOrgCode } from "./organisms";
+
+export type DatasetView = "default" | "locality";
+export type GraphFormat = "json" | "bin";
+
+export type DatasetInfo = {
+  id: string;
+  name: string;
+  description?: string;
+  // ISO timestamp
+  createdAt?: string;
+  organism: string;
+  // Input TSV the graph was generated from
+  source?: string;
+  // Cutoffs applied when generating, e.g. { minProb: 0.8 }
+  thresholds?: Record<string, number | string>;
+  stats?: { nodes: number; edges: number; novelEdges?: number; afmprob?: { min: number; max: number } };
+  views: DatasetView[];
+};
+
+export class DatasetError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "DatasetError";
+  }
+}
+
+const DATASETS_DIR = process.env.DATASETS_DIR || path.join(process.cwd(), "data", "datasets");
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+export const DATASET_ID_RE = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const VIEW_FILES: Record<DatasetView, string> = { default: "graph.json", locality: "graph_locality.json" };
+
+const exists = (file: string) => fs.stat(file).then((s) => s.isFile(), () => false);
+
+async function registeredDatasets(): Promise<Array<DatasetInfo & { dir: string }>> {
+  let dirs: string[];
+  try {
+    dirs = await fs.readdir(DATASETS_DIR);
+  } catch {
+    return [];
+  }
+  const out: Array<DatasetInfo & { dir: string }> = [];
+  for (const id of dirs.sort()) {
+    if (!DATASET_ID_RE.test(id)) continue;
+    const dir = path.join(DATASETS_DIR, id);
+    let meta: any;
+    try {
+      meta = JSON.parse(await fs.readFile(path.join(dir, "dataset.json"), "utf8"));
+    } catch {
+      continue;
+    }
+    const views = Object.keys(VIEW_FILES) as DatasetView[];
+    const present = await Promise.all(views.map((v) => exists(path.join(dir, VIEW_FILES[v]))));
+    out.push({
+      id,
+      name: String(meta?.name || id),
+      description: meta?.description ? String(meta.description) : undefined,
+      createdAt: meta?.createdAt ? String(meta.createdAt) : undefined,
+      organism: isOrgCode(String(meta?.organism || "")) ? String(meta.organism) : DEFAULT_ORGANISM,
+      source: meta?.source ? String(meta.source) : undefined,
+      thresholds: meta?.thresholds && typeof meta.thresholds === "object" ? meta.thresholds : undefined,
+      stats: meta?.stats && typeof meta.stats === "object" ? meta.stats : undefined,
+      views: views.filter((_, i) => present[i]),
+      dir,
+    });
+  }
+  return out;
+}
+
+// public/graph.json (+ graph_locality.json) and the per-organism public/graph_<org>.json files
+async function legacyDatasets(): Promise<Array<DatasetInfo & { files: Partial<Record<DatasetView, string>> }>> {
+  let names: string[];
+  try {
+    names = await fs.readdir(PUBLIC_DIR);
+  } catch {
+    return [];
+  }
+  const out: Array<DatasetInfo & { files: Partial<Record<DatasetView, string>> }> = [];
+  const orgs = names
+    .map((n) => n.match(/^graph(?:_([a-z]{3,4}))?\.json$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map((m) => m[1] || DEFAULT_ORGANISM);
+  for (const org of Array.from(new Set(orgs)).sort()) {
+    const suffix = org === DEFAULT_ORGANISM ? "" : `_${org}`;
+    const files: Partial<Record<DatasetView, string>> = { default: path.join(PUBLIC_DIR, `graph${suffix}.json`) };
+    if (names.includes(`graph_locality${suffix}.json`)) files.locality = path.join(PUBLIC_DIR, `graph_locality${suffix}.json`);
+    const stat = await fs.stat(files.default!).catch(() => null);
+    out.push({
+      id: org === DEFAULT_ORGANISM ? "public" : `public-${org}`,
+      name: `public/graph${suffix}.json`,
+      description: "Legacy graph file served from public/",
+      createdAt: stat ? stat.mtime.toISOString() : undefined,
+      organism: org,
+      views: Object.keys(files) as DatasetView[],
+      files,
+    });
+  }
+  return out;
+}
+
+export async function listDatasets(): Promise<DatasetInfo[]> {
+  const [registered, legacy] = await Promise.all([registeredDatasets(), legacyDatasets()]);
+  const strip = ({ dir, ...d }: DatasetInfo & { dir: string }): DatasetInfo => d;
+  const stripFiles = ({ files, ...d }: DatasetInfo & { files: unknown }): DatasetInfo => d;
+  // Newest runs first; legacy files after every registered run
+  const byDate = (a: DatasetInfo, b: DatasetInfo) => (b.createdAt || "").localeCompare(a.createdAt || "");
+  return [...registered.map(strip).sort(byDate), ...legacy.map(stripFiles)];
+}
+
+// Absolute path of one view of a dataset; 404 when the dataset or view does not exist.
+// With `prefer: "bin"` the binary copy is returned when there is one, else the JSON file.
+export async function datasetFile(id: string, view: DatasetView, prefer: GraphFormat = "json"): Promise<{ file: string; format: GraphFormat }> {
+  if (!DATASET_ID_RE.test(id)) throw new DatasetError("Invalid dataset id", 400);
+  let file: string | undefined;
+  const registered = (await registeredDatasets()).find((d) => d.id === id);
+  if (registered) {
+    if (!registered.views.includes(view)) throw new DatasetError(`Dataset ${id} has no ${view} view`, 404);
+    file = path.join(registered.dir, VIEW_FILES[view]);
+  } else {
+    const legacy = (await legacyDatasets()).find((d) => d.id === id);
+    if (!legacy) throw new DatasetError(`Unknown dataset ${id}`, 404);
+    file = legacy.files[view];
+    if (!file) throw new DatasetError(`Dataset ${id} has no ${view} view`, 404);
+  }
+  const binary = file.replace(/\.json$/, ".bin");
+  if (prefer === "bin" && (await exists(binary))) return { file: binary, format: "bin" };
+  return { file, format: "json" };
+}
@@ -0,0 +1,218 @@
+// lib/graph.ts
+// Server-side subgraph queries over the Prisma PPI tables (Protein/Interaction). The payload
+// mirrors the graph.json shape written by scripts/tsv-to-graph.js so viewers can consume either.
+import { prisma } from "./prisma";
+
+export type SubgraphNode = {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  size: number;
+  degree: number;
+  community: number | null;
+  allDBs: string[];
+  hasAllDBsNone: boolean;
+  localities: string[];
+};
+
+export type SubgraphEdge = {
+  id: string;
+  source: string;
+  target: string;
+  weight: number;
+  allDBs: string;
+  afmprob?: number;
+};
+
+export type Subgraph = {
+  nodes: SubgraphNode[];
+  edges: SubgraphEdge[];
+  adjacency: Record<string, string[]>;
+  clusters: [];
+  meta: { order: number; size: number; truncated: boolean; seeds: string[] };
+};
+
+export type SubgraphQuery = {
+  // Protein ids or display names to start from
+  proteins?: string[];
+  // Neighborhood depth around `proteins` (0 = induced subgraph of the proteins only)
+  radius?: number;
+  // Layout bounding box [minX, minY, maxX, maxY]
+  bbox?: [number, number, number, number];
+  // Drop edges with AFMprob below this value
+  minProb?: number;
+  // Only follow/return interactions absent from every database (allDBs === "none")
+  novelOnly?: boolean;
+  // Upper bound on returned nodes
+  limit?: number;
+  // KEGG organism code; seeds and bbox hits are restricted to it (interactions never cross organisms)
+  organism?: string;
+};
+
+export const DEFAULT_NODE_LIMIT = 5000;
+export const MAX_RADIUS = 3;
+
+// Postgres takes at most 32767 bind parameters per statement. Id lists are queried in chunks of
+// this size, and no query below has more than two such lists.
+const IN_CHUNK = 10000;
+
+function chunked<T>(items: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function edgeFilter(q: SubgraphQuery) {
+  return {
+    ...(typeof q.minProb === "number" && q.minProb > 0 ? { afmprob: { gte: q.minProb } } : {}),
+    ...(q.novelOnly ? { allDBs: { equals: "none", mode: "insensitive" as const } } : {}),
+  };
+}
+
+async function resolveProteins(proteins: string[], organism?: string): Promise<string[]> {
+  const wanted = Array.from(new Set(proteins.map((p) => p.trim()).filter(Boolean)));
+  if (!wanted.length) return [];
+  const ids = new Set<string>();
+  for (const part of chunked(wanted)) {
+    const rows = await prisma.protein.findMany({
+      where: { OR: [{ id: { in: part } }, { label: { in: part, mode: "insensitive" } }], ...(organism ? { organism } : {}) },
+      select: { id: true },
+    });
+    for (const r of rows) ids.add(r.id);
+  }
+  return Array.from(ids);
+}
+
+export async function querySubgraph(q: SubgraphQuery): Promise<Subgraph> {
+  const limit = Math.max(1, Math.min(q.limit ?? DEFAULT_NODE_LIMIT, 50000));
+  const radius = Math.max(0, Math.min(q.radius ?? 1, MAX_RADIUS));
+  const nodeIds = new Set<string>();
+  let truncated = false;
+  let seeds: string[] = [];
+
+  if (q.bbox) {
+    const [minX, minY, maxX, maxY] = q.bbox;
+    const inBox = await prisma.protein.findMany({
+      where: { x: { gte: minX, lte: maxX }, y: { gte: minY, lte: maxY }, ...(q.organism ? { organism: q.organism } : {}) },
+      select: { id: true },
+      orderBy: { degree: "desc" },
+      take: limit + 1,
+    });
+    if (inBox.length > limit) { truncated = true; inBox.pop(); }
+    for (const n of inBox) nodeIds.add(n.id);
+  }
+
+  if (q.proteins && q.proteins.length) {
+    seeds = await resolveProteins(q.proteins, q.organism);
+    let frontier = seeds;
+    for (const id of frontier) nodeIds.add(id);
+    for (let depth = 0; depth < radius && frontier.length && !truncated; depth++) {
+      const rows = [];
+      for (const part of chunked(frontier)) {
+        rows.push(...(await prisma.interaction.findMany({
+          where: { OR: [{ proteinAId: { in: part } }, { proteinBId: { in: part } }], ...edgeFilter(q) },
+          select: { proteinAId: true, proteinBId: true },
+        })));
+      }
+      const next: string[] = [];
+      for (const r of rows) {
+        for (const id of [r.proteinAId, r.proteinBId]) {
+          if (nodeIds.has(id)) continue;
+          if (nodeIds.size >= limit) { truncated = true; break; }
+          nodeIds.add(id);
+          next.push(id);
+        }
+        if (truncated) break;
+      }
+      frontier = next;
+    }
+  }
+
+  const ids = Array.from(nodeIds);
+  if (!ids.length) return { nodes: [], edges: [], adjacency: {}, clusters: [], meta: { order: 0, size: 0, truncated, seeds } };
+
+  // Edges between the nodes: every (source chunk, target chunk) pair, each edge in exactly one
+  const parts = chunked(ids);
+  const [edgeParts, proteinParts] = await Promise.all([
+    Promise.all(parts.flatMap((a) => parts.map((b) => prisma.interaction.findMany({
+      where: { proteinAId: { in: a }, proteinBId: { in: b }, ...edgeFilter(q) },
+      select: { proteinAId: true, proteinBId: true, allDBs: true, afmprob: true, weight: true },
+    })))),
+    Promise.all(parts.map((part) => prisma.protein.findMany({
+      where: { id: { in: part } },
+      include: { localities: { select: { locality: { select: { name: true } } } } },
+    }))),
+  ]);
+  const edgeRows = edgeParts.flat();
+  const proteinRows = proteinParts.flat();
+
+  const proteins = new Map(proteinRows.map((p) => [p.id, p]));
+  const nodeDBs = new Map<string, Set<string>>();
+  const adjacency: Record<string, string[]> = {};
+  for (const id of ids) adjacency[id] = [];
+
+  const edges: SubgraphEdge[] = edgeRows.map((r) => {
+    adjacency[r.proteinAId].push(r.proteinBId);
+    adjacency[r.proteinBId].push(r.proteinAId);
+    if (r.allDBs) {
+      for (const id of [r.proteinAId, r.proteinBId]) {
+        if (!nodeDBs.has(id)) nodeDBs.set(id, new Set());
+        nodeDBs.get(id)!.add(r.allDBs);
+      }
+    }
+    return {
+      id: edgeKey(r.proteinAId, r.proteinBId),
+      source: r.proteinAId,
+      target: r.proteinBId,
+      weight: r.weight,
+      allDBs: r.allDBs,
+      afmprob: r.afmprob ?? undefined,
+    };
+  });
+
+  const nodes: SubgraphNode[] = ids.map((id) => {
+    const p = proteins.get(id);
+    const dbs = Array.from(nodeDBs.get(id) || []);
+    return {
+      id,
+      label: p?.label || id,
+      x: p?.x ?? 0,
+      y: p?.y ?? 0,
+      size: p?.size ?? 1,
+      degree: p?.degree || adjacency[id].length,
+      community: p?.community ?? null,
+      allDBs: dbs,
+      hasAllDBsNone: dbs.some((d) => d.trim().toLowerCase() === "none"),
+      localities: p ? p.localities.map((l) => l.locality.name) : [],
+    };
+  });
+
+  return { nodes, edges, adjacency, clusters: [], meta: { order: nodes.length, size: edges.length, truncated, seeds } };
+}
+
+export type NeighborGraph = {
+  nodes: Array<{ id: string; label: string; isProtein: boolean }>;
+  edges: Array<{ id: string; source: string; target: string; allDBs: string; afmprob?: number }>;
+  meta: { truncated: boolean; unmatched: string[] };
+};
+
+// Neighborhood of a symbol set (e.g. the genes of a KEGG pathway), trimmed to what
+// PathwayNeighborGraph draws.
+export async function queryNeighbors(opts: { symbols: string[]; depth?: number; minProb?: number; novelOnly?: boolean; limit?: number; organism?: string }): Promise<NeighborGraph> {
+  const sub = await querySubgraph({ proteins: opts.symbols, radius: opts.depth ?? 1, minProb: opts.minProb, novelOnly: opts.novelOnly, limit: opts.limit, organism: opts.organism });
+  const seedSet = new Set(sub.meta.seeds);
+  const matched = new Set<string>();
+  for (const n of sub.nodes) {
+    if (!seedSet.has(n.id)) continue;
+    matched.add(n.id.toLowerCase());
+    matched.add(n.label.toLowerCase());
+  }
+  return {
+    nodes: sub.nodes.map((n) => ({ id: n.id, label: n.label, isProtein: seedSet.has(n.id) })),
+    edges: sub.edges.map((e) => ({ id: e.id, source: e.source, target: e.target, allDBs: e.allDBs, afmprob: e.afmprob })),
+    meta: { truncated: sub.meta.truncated, unmatched: opts.symbols.filter((s) => !matched.has(s.trim().toLowerCase())) },
+  };
+}
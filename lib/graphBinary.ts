@@ -0,0 +1,176 @@
+// lib/graphBinary.ts
+// Client side of the binary graph format written by scripts/graph-binary.js (see there for the
+// layout). Sections are decoded as soon as their bytes have arrived, so parsing overlaps the
+// download instead of one big JSON.parse at the end. Produces the same shape as graph.json,
+// with the adjacency map rebuilt from the edges.
+
+export type LoadedGraph = {
+  nodes: Array<{ id: string; label?: string; x: number; y: number; size?: number; degree?: number; community?: number | null; hasAllDBsNone?: boolean }>;
+  edges: Array<{ id: string; source: string; target: string; weight?: number; allDBs?: string; afmprob?: number }>;
+  adjacency: Record<string, string[]>;
+  clusters: Array<{ id: string; label?: string; x: number; y: number; size?: number; community: number; count: number }>;
+  meta?: { order: number; size: number };
+};
+
+export type LoadProgress = (loaded: number, total: number | null) => void;
+
+export class GraphBinaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GraphBinaryError";
+  }
+}
+
+const MAGIC = "PPIG";
+const VERSION = 2;
+// Version 1 files differ only in storing edgeNum as Float32; still read, at that precision
+const FLOAT32_EDGES_VERSION = 1;
+const SECTION_COUNT = 9;
+
+type Header = {
+  meta?: LoadedGraph["meta"];
+  directed?: boolean;
+  nodeCount: number;
+  edgeCount: number;
+  clusters?: LoadedGraph["clusters"];
+  provenance: string[];
+};
+
+// Incremental decoder state; `decodeSection` is called once per section, in file order
+function createDecoder(version: number) {
+  const utf8 = new TextDecoder();
+  let header: Header | null = null;
+  let ids: string[] = [];
+  const nodes: LoadedGraph["nodes"] = [];
+  const edges: LoadedGraph["edges"] = [];
+
+  function decodeSection(i: number, bytes: Uint8Array) {
+    // Sections start on 4-byte boundaries of the file, so typed views need no copy
+    const view = <T>(Ctor: { new (buf: ArrayBufferLike, offset: number, length: number): T; BYTES_PER_ELEMENT: number }) =>
+      new Ctor(bytes.buffer, bytes.byteOffset, bytes.byteLength / Ctor.BYTES_PER_ELEMENT);
+    if (i === 0) {
+      header = JSON.parse(utf8.decode(bytes)) as Header;
+      return;
+    }
+    if (!header) throw new GraphBinaryError("Section before header");
+    const n = header.nodeCount;
+    const m = header.edgeCount;
+    switch (i) {
+      case 1:
+        ids = n ? utf8.decode(bytes).split("\n") : [];
+        if (ids.length !== n) throw new GraphBinaryError(`Expected ${n} node ids, got ${ids.length}`);
+        for (const id of ids) nodes.push({ id, label: id, x: 0, y: 0 });
+        break;
+      case 2: {
+        const labels = n ? utf8.decode(bytes).split("\n") : [];
+        labels.forEach((l, k) => { if (l && nodes[k]) nodes[k].label = l; });
+        break;
+      }
+      case 3: {
+        const pos = view(Float32Array);
+        for (let k = 0; k < n; k++) { nodes[k].x = pos[k * 3]; nodes[k].y = pos[k * 3 + 1]; nodes[k].size = pos[k * 3 + 2]; }
+        break;
+      }
+      case 4: {
+        const ints = view(Int32Array);
+        for (let k = 0; k < n; k++) { nodes[k].degree = ints[k * 2]; nodes[k].community = ints[k * 2 + 1] >= 0 ? ints[k * 2 + 1] : null; }
+        break;
+      }
+      case 5:
+        for (let k = 0; k < n; k++) nodes[k].hasAllDBsNone = (bytes[k] & 1) === 1;
+        break;
+      case 6: {
+        const idx = view(Uint32Array);
+        for (let k = 0; k < m; k++) {
+          const source = ids[idx[k * 2]];
+          const target = ids[idx[k * 2 + 1]];
+          const id = header.directed ? `${source}->${target}` : source < target ? `${source}|${target}` : `${target}|${source}`;
+          edges.push({ id, source, target });
+        }
+        break;
+      }
+      case 7: {
+        // Float64 needs 8-byte alignment for a typed view, and sections are only 4-byte aligned
+        const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const wide = version !== FLOAT32_EDGES_VERSION;
+        const num = (j: number) => (wide ? dv.getFloat64(j * 8, true) : dv.getFloat32(j * 4, true));
+        for (let k = 0; k < m; k++) {
+          edges[k].weight = num(k * 2);
+          const ap = num(k * 2 + 1);
+          if (!Number.isNaN(ap)) edges[k].afmprob = ap;
+        }
+        break;
+      }
+      case 8: {
+        const prov = view(Uint16Array);
+        for (let k = 0; k < m; k++) edges[k].allDBs = header.provenance[prov[k]] || "";
+        break;
+      }
+    }
+  }
+
+  function result(): LoadedGraph {
+    if (!header) throw new GraphBinaryError("Empty graph file");
+    const adjacency: Record<string, string[]> = {};
+    for (const id of ids) adjacency[id] = [];
+    for (const e of edges) { adjacency[e.source].push(e.target); adjacency[e.target].push(e.source); }
+    return { nodes, edges, adjacency, clusters: header.clusters || [], meta: header.meta };
+  }
+
+  return { decodeSection, result };
+}
+
+// Read a response body chunk by chunk, reporting bytes received
+async function readBody(res: Response, onChunk: (buf: Uint8Array, length: number) => void, onProgress?: LoadProgress) {
+  const total = Number(res.headers.get("Content-Length")) || null;
+  const reader = res.body!.getReader();
+  let buf = new Uint8Array(total || 1 << 20);
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (length + value.length > buf.length) {
+      const grown = new Uint8Array(Math.max(buf.length * 2, length + value.length));
+      grown.set(buf.subarray(0, length));
+      buf = grown;
+    }
+    buf.set(value, length);
+    length += value.length;
+    onChunk(buf, length);
+    onProgress?.(length, total);
+  }
+  return buf.subarray(0, length);
+}
+
+export async function decodeGraphBinary(res: Response, onProgress?: LoadProgress): Promise<LoadedGraph> {
+  let decoder = null as ReturnType<typeof createDecoder> | null;
+  let pos = 8;
+  let section = 0;
+  const consume = (buf: Uint8Array, length: number) => {
+    if (section === 0 && pos === 8 && length >= 8) {
+      const magic = String.fromCharCode(buf[0], buf[1], buf[2], buf[3]);
+      const version = new DataView(buf.buffer, buf.byteOffset + 4, 4).getUint32(0, true);
+      if (magic !== MAGIC) throw new GraphBinaryError("Not a binary graph file");
+      if (version !== VERSION && version !== FLOAT32_EDGES_VERSION) throw new GraphBinaryError(`Unsupported binary graph version ${version}`);
+      decoder = createDecoder(version);
+    }
+    if (!decoder) return;
+    while (section < SECTION_COUNT && length >= pos + 4) {
+      const size = new DataView(buf.buffer, buf.byteOffset + pos, 4).getUint32(0, true);
+      if (length < pos + 4 + size) break;
+      decoder.decodeSection(section, buf.subarray(pos + 4, pos + 4 + size));
+      pos += 4 + size + ((4 - (size % 4)) % 4);
+      section++;
+    }
+  };
+  await readBody(res, consume, onProgress);
+  if (!decoder || section < SECTION_COUNT) throw new GraphBinaryError("Binary graph file is truncated");
+  return decoder.result();
+}
+
+// A /api/datasets/<id>/graph response in either format, picked by Content-Type
+export async function loadGraph(res: Response, onProgress?: LoadProgress): Promise<LoadedGraph> {
+  if ((res.headers.get("Content-Type") || "").includes("application/octet-stream")) return decodeGraphBinary(res, onProgress);
+  const body = await readBody(res, () => {}, onProgress);
+  return JSON.parse(new TextDecoder().decode(body)) as LoadedGraph;
+}
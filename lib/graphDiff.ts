@@ -0,0 +1,113 @@
+// lib/graphDiff.ts
+// Compare two prediction runs of the same view. Edges are matched by their unordered endpoint
+// pair (the `a|b` key both runs use as edge id). The result is the current run plus the edges
+// (and nodes) only the base run has, every edge tagged with how it changed.
+import { databaseKeys } from "./provenance";
+
+export type EdgeDiff = "added" | "removed" | "changed";
+
+export type DiffCounts = { added: number; removed: number; changed: number; unchanged: number };
+
+type DiffNode = { id: string; x: number; y: number };
+type DiffEdge = { id: string; source: string; target: string; allDBs?: string; afmprob?: number };
+
+export type DiffedEdge<E extends DiffEdge> = E & {
+  diff?: EdgeDiff;
+  // Values in the base run, set on changed edges
+  prevAfmprob?: number;
+  prevAllDBs?: string;
+};
+
+export const DIFF_COLORS: Record<EdgeDiff, string> = { added: "#22c55e", removed: "#ef4444", changed: "#f59e0b" };
+
+// AFMprob differences below this are rounding noise between runs
+const PROB_EPSILON = 1e-6;
+// Base-only nodes sharing the same anchor are spread around it by up to this fraction of the
+// current layout's extent
+const EXTRA_NODE_SPREAD = 0.01;
+
+// Stable pseudo-random value in [0, 1) per id (FNV-1a), so offsets are the same on every load
+function idFraction(id: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 0x01000193);
+  return (h >>> 0) / 0x100000000;
+}
+
+export const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// "BioGRID; IntAct" and "intact,biogrid" are the same evidence
+const normalizeDBs = (s: string | undefined) => databaseKeys(s).sort().join(",");
+
+function edgeChanged(cur: DiffEdge, base: DiffEdge): boolean {
+  const a = cur.afmprob, b = base.afmprob;
+  if ((typeof a === "number") !== (typeof b === "number")) return true;
+  if (typeof a === "number" && typeof b === "number" && Math.abs(a - b) > PROB_EPSILON) return true;
+  return normalizeDBs(cur.allDBs) !== normalizeDBs(base.allDBs);
+}
+
+export function diffGraphs<N extends DiffNode, E extends DiffEdge, G extends { nodes: N[]; edges: E[]; adjacency?: Record<string, string[]> }>(
+  current: G,
+  base: { nodes: N[]; edges: E[] },
+): G & { edges: DiffedEdge<E>[]; counts: DiffCounts } {
+  const counts: DiffCounts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const baseEdges = new Map<string, E>();
+  for (const e of base.edges) baseEdges.set(pairKey(e.source, e.target), e);
+
+  const seen = new Set<string>();
+  const edges: DiffedEdge<E>[] = current.edges.map((e) => {
+    const key = pairKey(e.source, e.target);
+    seen.add(key);
+    const prev = baseEdges.get(key);
+    if (!prev) { counts.added++; return { ...e, diff: "added" as const }; }
+    if (edgeChanged(e, prev)) { counts.changed++; return { ...e, diff: "changed" as const, prevAfmprob: prev.afmprob, prevAllDBs: prev.allDBs }; }
+    counts.unchanged++;
+    return { ...e };
+  });
+
+  const nodeIds = new Set(current.nodes.map((n) => n.id));
+  const baseNodes = new Map(base.nodes.map((n) => [n.id, n]));
+  const removed: E[] = [];
+  for (const [key, e] of baseEdges) {
+    if (seen.has(key)) continue;
+    counts.removed++;
+    removed.push(e);
+    edges.push({ ...e, id: `removed:${key}`, diff: "removed" });
+  }
+
+  // Nodes that only the base run has. Each run has its own layout, so place them next to the
+  // current-run neighbours they lost edges to rather than at their old coordinates.
+  const adjacency: Record<string, string[]> = {};
+  for (const [id, list] of Object.entries(current.adjacency || {})) adjacency[id] = [...list];
+  const extra = new Map<string, { node: N; xs: number[]; ys: number[] }>();
+  const currentPos = new Map(current.nodes.map((n) => [n.id, n]));
+  for (const e of removed) {
+    for (const [id, other] of [[e.source, e.target], [e.target, e.source]]) {
+      (adjacency[id] ||= []).push(other);
+      if (nodeIds.has(id)) continue;
+      const node = baseNodes.get(id);
+      if (!node) continue;
+      const entry = extra.get(id) || { node, xs: [], ys: [] };
+      const anchor = currentPos.get(other);
+      if (anchor) { entry.xs.push(anchor.x); entry.ys.push(anchor.y); }
+      extra.set(id, entry);
+    }
+  }
+  // Several base-only nodes around one neighbour would share its position exactly; offset each
+  // by an id-derived angle and radius
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const n of current.nodes) {
+    minX = Math.min(minX, n.x); maxX = Math.max(maxX, n.x);
+    minY = Math.min(minY, n.y); maxY = Math.max(maxY, n.y);
+  }
+  const spread = Number.isFinite(maxX - minX) ? Math.max(maxX - minX, maxY - minY) * EXTRA_NODE_SPREAD || 1 : 1;
+  const nodes = [...current.nodes];
+  for (const { node, xs, ys } of extra.values()) {
+    const mean = (v: number[]) => v.reduce((s, x) => s + x, 0) / v.length;
+    if (!xs.length) { nodes.push({ ...node }); continue; }
+    const angle = idFraction(node.id) * 2 * Math.PI;
+    const radius = spread * (0.5 + 0.5 * idFraction(`${node.id}#r`));
+    nodes.push({ ...node, x: mean(xs) + Math.cos(angle) * radius, y: mean(ys) + Math.sin(angle) * radius });
+  }
+
+  return { ...current, nodes, edges, adjacency, counts };
+}
@@ -0,0 +1,124 @@
+// lib/graphExport.ts
+// Exports for the main PPI view (GraphViewer): the visible subgraph as GEXF/GraphML/CSV,
+// and the current viewport as SVG (rasterized to PNG with svgToPng from cyExport).
+
+export type ExportNode = {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  size: number;
+  degree: number;
+  community: number | null;
+  color?: string;
+};
+
+export type ExportEdge = {
+  id: string;
+  source: string;
+  target: string;
+  weight: number;
+  allDBs: string;
+  afmprob?: number;
+};
+
+export type ExportGraph = { nodes: ExportNode[]; edges: ExportEdge[] };
+
+const xml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function rgbOf(color: string): [number, number, number] | null {
+  const hex = color.match(/^#([0-9a-f]{6})$/i);
+  if (hex) return [0, 2, 4].map((i) => parseInt(hex[1].slice(i, i + 2), 16)) as [number, number, number];
+  const rgb = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null;
+}
+
+// GEXF 1.3 with viz positions/sizes/colors, readable by Gephi.
+export function toGexf(g: ExportGraph): string {
+  const out: string[] = [];
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push('<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">');
+  out.push(`<meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>lbf7 PPI viewer</creator></meta>`);
+  out.push('<graph defaultedgetype="undirected">');
+  out.push('<attributes class="node"><attribute id="degree" title="degree" type="integer"/><attribute id="community" title="community" type="integer"/></attributes>');
+  out.push('<attributes class="edge"><attribute id="allDBs" title="allDBs" type="string"/><attribute id="afmprob" title="afmprob" type="double"/></attributes>');
+  out.push("<nodes>");
+  for (const n of g.nodes) {
+    const rgb = n.color ? rgbOf(n.color) : null;
+    out.push(
+      `<node id="${xml(n.id)}" label="${xml(n.label)}"><attvalues><attvalue for="degree" value="${n.degree}"/>` +
+        (n.community !== null ? `<attvalue for="community" value="${n.community}"/>` : "") +
+        `</attvalues><viz:position x="${n.x}" y="${n.y}" z="0"/><viz:size value="${n.size}"/>` +
+        (rgb ? `<viz:color r="${rgb[0]}" g="${rgb[1]}" b="${rgb[2]}"/>` : "") +
+        "</node>",
+    );
+  }
+  out.push("</nodes><edges>");
+  for (const e of g.edges) {
+    out.push(
+      `<edge id="${xml(e.id)}" source="${xml(e.source)}" target="${xml(e.target)}" weight="${e.weight}"><attvalues>` +
+        `<attvalue for="allDBs" value="${xml(e.allDBs)}"/>` +
+        (typeof e.afmprob === "number" ? `<attvalue for="afmprob" value="${e.afmprob}"/>` : "") +
+        "</attvalues></edge>",
+    );
+  }
+  out.push("</edges></graph></gexf>");
+  return out.join("\n");
+}
+
+export function toGraphML(g: ExportGraph): string {
+  const out: string[] = [];
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push('<graphml xmlns="http://graphml.graphdrawing.org/xmlns">');
+  const keys: Array<[string, "node" | "edge", string]> = [
+    ["label", "node", "string"], ["x", "node", "double"], ["y", "node", "double"], ["size", "node", "double"],
+    ["degree", "node", "int"], ["community", "node", "int"],
+    ["weight", "edge", "double"], ["allDBs", "edge", "string"], ["afmprob", "edge", "double"],
+  ];
+  for (const [id, kind, type] of keys) out.push(`<key id="${id}" for="${kind}" attr.name="${id}" attr.type="${type}"/>`);
+  out.push('<graph id="G" edgedefault="undirected">');
+  const data = (k: string, v: string | number) => `<data key="${k}">${xml(String(v))}</data>`;
+  for (const n of g.nodes) {
+    out.push(`<node id="${xml(n.id)}">${data("label", n.label)}${data("x", n.x)}${data("y", n.y)}${data("size", n.size)}${data("degree", n.degree)}${n.community !== null ? data("community", n.community) : ""}</node>`);
+  }
+  for (const e of g.edges) {
+    out.push(`<edge id="${xml(e.id)}" source="${xml(e.source)}" target="${xml(e.target)}">${data("weight", e.weight)}${data("allDBs", e.allDBs)}${typeof e.afmprob === "number" ? data("afmprob", e.afmprob) : ""}</edge>`);
+  }
+  out.push("</graph></graphml>");
+  return out.join("\n");
+}
+
+const csvCell = (v: unknown) => {
+  const s = v === undefined || v === null ? "" : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function nodesToCsv(g: ExportGraph): string {
+  const rows = [["id", "label", "degree", "community", "x", "y"].join(",")];
+  for (const n of g.nodes) rows.push([n.id, n.label, n.degree, n.community, n.x, n.y].map(csvCell).join(","));
+  return rows.join("\n") + "\n";
+}
+
+export function edgesToCsv(g: ExportGraph): string {
+  const label = new Map(g.nodes.map((n) => [n.id, n.label]));
+  const rows = [["source", "target", "source_label", "target_label", "allDBs", "afmprob", "weight"].join(",")];
+  for (const e of g.edges) rows.push([e.source, e.target, label.get(e.source), label.get(e.target), e.allDBs, e.afmprob, e.weight].map(csvCell).join(","));
+  return rows.join("\n") + "\n";
+}
+
+// Shapes already projected to viewport pixels
+export type ViewNode = { x: number; y: number; r: number; color: string; label?: string };
+export type ViewEdge = { x1: number; y1: number; x2: number; y2: number; color: string; width: number };
+
+export function viewToSvg(view: { width: number; height: number; nodes: ViewNode[]; edges: ViewEdge[]; background: string; labelColor: string }): string {
+  const f = (n: number) => (Math.round(n * 100) / 100).toString();
+  const parts: string[] = [`<rect width="100%" height="100%" fill="${view.background}"/>`];
+  parts.push("<g>");
+  for (const e of view.edges) parts.push(`<line x1="${f(e.x1)}" y1="${f(e.y1)}" x2="${f(e.x2)}" y2="${f(e.y2)}" stroke="${e.color}" stroke-width="${f(e.width)}"/>`);
+  parts.push("</g><g>");
+  for (const n of view.nodes) parts.push(`<circle cx="${f(n.x)}" cy="${f(n.y)}" r="${f(n.r)}" fill="${n.color}"/>`);
+  parts.push(`</g><g font-size="12" fill="${view.labelColor}">`);
+  for (const n of view.nodes) if (n.label) parts.push(`<text x="${f(n.x + n.r + 2)}" y="${f(n.y + 4)}">${xml(n.label)}</text>`);
+  parts.push("</g>");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${view.width}" height="${view.height}" viewBox="0 0 ${view.width} ${view.height}" font-family="Helvetica, Arial, sans-serif">${parts.join("")}</svg>`;
+}
@@ -0,0 +1,150 @@
+// lib/graphFilters.ts
+// Composable visibility filters for the graph viewer. A filter is a pair of predicates over node
+// and edge attributes: a node passes when no filter rejects it, an edge when no filter rejects it
+// and both of its endpoints pass. Node visibility, edge visibility, totals and the focused node's
+// neighbourhood are all read from the same evaluation, so they cannot disagree.
+//
+// Each filter's rejections are kept separately, so changing one filter only re-runs that
+// filter's predicates. Cluster meta-nodes (`isCluster`) are never filtered.
+import type Graph from "graphology";
+import { matchesProvenance, type ProvenanceRule } from "./provenance";
+
+type Attributes = Record<string, any>;
+
+export type GraphFilter = {
+  id: string;
+  // Setting a filter whose id and key are unchanged is a no-op; include every parameter in it
+  key: string;
+  // Omitted predicates accept everything
+  node?: (node: string, attrs: Attributes, graph: Graph) => boolean;
+  edge?: (edge: string, attrs: Attributes, source: string, target: string) => boolean;
+};
+
+export type FilterTotals = { nodes: number; edges: number; blueEdges: number };
+
+export type Neighborhood = {
+  // The node itself and its neighbours over visible edges
+  nodes: Set<string>;
+  degree: number;
+  blue: number;
+};
+
+export type FilterEngine = {
+  // Adds or replaces the filter with this id
+  setFilter(filter: GraphFilter): void;
+  removeFilter(id: string): void;
+  // Re-run every filter, after nodes or edges were added, dropped or changed
+  refresh(): void;
+  // `except` names a filter to leave out, e.g. to show what a filter's own control would keep
+  nodeVisible(node: string, except?: string): boolean;
+  edgeVisible(edge: string, except?: string): boolean;
+  // Edges only present in a comparison's base run (diff "removed") are not counted
+  totals(): FilterTotals;
+  neighborhood(node: string): Neighborhood;
+};
+
+// allDBs "none": the interaction is not in any database, i.e. a new prediction
+export const isNovelEdge = (attrs: Attributes) => String(attrs?.allDBs || "").trim().toLowerCase() === "none";
+
+export function minDegreeFilter(min: number): GraphFilter {
+  return { id: "degree", key: String(min), node: min > 0 ? (_n, attrs) => (attrs.degree || 0) >= min : undefined };
+}
+
+// AFMprob within [min, max]; edges without an AFMprob always pass
+export function confidenceFilter(min: number, max = 1): GraphFilter {
+  return { id: "confidence", key: `${min}-${max}`, edge: (_e, attrs) => typeof attrs.afmprob !== "number" || (attrs.afmprob >= min && attrs.afmprob <= max) };
+}
+
+// Only new interactions and the proteins taking part in one. `novelNodes` is read at evaluation
+// time; refresh the engine when it changes.
+export function onlyNovelFilter(enabled: boolean, novelNodes: () => Set<string>): GraphFilter {
+  if (!enabled) return { id: "onlyNovel", key: "off" };
+  return { id: "onlyNovel", key: "on", node: (n) => novelNodes().has(n), edge: (_e, attrs) => isNovelEdge(attrs) };
+}
+
+// Edges backed by every required and no excluded database, and the proteins with such an edge
+export function provenanceFilter(rule: ProvenanceRule): GraphFilter {
+  if (!rule.required.length && !rule.excluded.length) return { id: "provenance", key: "" };
+  const passes = (attrs: Attributes) => matchesProvenance(attrs.allDBs, rule);
+  return {
+    id: "provenance",
+    key: `+${[...rule.required].sort()}-${[...rule.excluded].sort()}`,
+    node: (n, _attrs, graph) => graph.someEdge(n, (_e, attrs) => passes(attrs)),
+    edge: (_e, attrs) => passes(attrs),
+  };
+}
+
+export function createFilterEngine(graph: Graph): FilterEngine {
+  const filters = new Map<string, GraphFilter>();
+  const nodeRejects = new Map<string, Set<string>>();
+  const edgeRejects = new Map<string, Set<string>>();
+
+  function evaluate(filter: GraphFilter) {
+    const nodes = new Set<string>();
+    const edges = new Set<string>();
+    if (filter.node) {
+      const pred = filter.node;
+      graph.forEachNode((n, attrs) => { if (!attrs.isCluster && !pred(n, attrs, graph)) nodes.add(n); });
+    }
+    if (filter.edge) {
+      const pred = filter.edge;
+      graph.forEachEdge((e, attrs, s, t) => { if (!pred(e, attrs, s, t)) edges.add(e); });
+    }
+    nodeRejects.set(filter.id, nodes);
+    edgeRejects.set(filter.id, edges);
+  }
+
+  const nodeVisible = (node: string, except?: string) => {
+    for (const [id, rejected] of nodeRejects) if (id !== except && rejected.has(node)) return false;
+    return true;
+  };
+  const ownEdgeVisible = (edge: string, except?: string) => {
+    for (const [id, rejected] of edgeRejects) if (id !== except && rejected.has(edge)) return false;
+    return true;
+  };
+  const edgeVisible = (edge: string, except?: string) =>
+    graph.hasEdge(edge) && ownEdgeVisible(edge, except) && nodeVisible(graph.source(edge), except) && nodeVisible(graph.target(edge), except);
+
+  return {
+    setFilter(filter) {
+      const prev = filters.get(filter.id);
+      if (prev && prev.key === filter.key) return;
+      filters.set(filter.id, filter);
+      evaluate(filter);
+    },
+    removeFilter(id) {
+      filters.delete(id);
+      nodeRejects.delete(id);
+      edgeRejects.delete(id);
+    },
+    refresh() {
+      for (const filter of filters.values()) evaluate(filter);
+    },
+    nodeVisible,
+    edgeVisible,
+    totals() {
+      let nodes = 0, edges = 0, blueEdges = 0;
+      graph.forEachNode((n, attrs) => { if (!attrs.isCluster && nodeVisible(n)) nodes++; });
+      graph.forEachEdge((e, attrs, s, t) => {
+        if (attrs.diff === "removed" || !ownEdgeVisible(e) || !nodeVisible(s) || !nodeVisible(t)) return;
+        edges++;
+        if (isNovelEdge(attrs)) blueEdges++;
+      });
+      return { nodes, edges, blueEdges };
+    },
+    neighborhood(node) {
+      const nodes = new Set<string>([node]);
+      let degree = 0, blue = 0;
+      if (!graph.hasNode(node)) return { nodes, degree, blue };
+      graph.forEachEdge(node, (e, attrs, s, t) => {
+        const other = s === node ? t : s;
+        if (!ownEdgeVisible(e) || !nodeVisible(other)) return;
+        nodes.add(other);
+        if (attrs.diff === "removed") return;
+        degree++;
+        if (isNovelEdge(attrs)) blue++;
+      });
+      return { nodes, degree, blue };
+    },
+  };
+}
@@ -0,0 +1,149 @@
+// lib/graphPaths.ts
+// Shortest and k-shortest simple paths between proteins (Dijkstra, and Yen's algorithm on top of
+// it). Edges are traversed in both directions and can be restricted by a predicate, typically
+// the viewer's filters. Unweighted, a path costs its hop count; weighted by AFMprob it costs
+// -ln(AFMprob) per edge, so the cheapest path is the most probable chain of interactions.
+import type Graph from "graphology";
+
+export type PathOptions = {
+  // Only edges accepted here are traversed
+  edgeFilter?: (edge: string) => boolean;
+  weighted?: boolean;
+};
+
+export type FoundPath = { nodes: string[]; edges: string[]; cost: number };
+
+// Added to every weighted edge so that, between equally probable paths, the shorter one wins
+// (and edges without an AFMprob, treated as certain, still cost something)
+const HOP_COST = 0.01;
+// Floor for AFMprob before taking the log; a zero probability would make an edge infinitely long
+const MIN_PROB = 1e-6;
+
+export function edgeCost(attrs: Record<string, any>, weighted: boolean): number {
+  if (!weighted) return 1;
+  const p = typeof attrs.afmprob === "number" ? Math.max(MIN_PROB, Math.min(1, attrs.afmprob)) : 1;
+  return HOP_COST - Math.log(p);
+}
+
+// Binary min-heap of [cost, node]
+class Heap {
+  private items: Array<[number, string]> = [];
+  get size() { return this.items.length; }
+  push(item: [number, string]) {
+    const a = this.items;
+    a.push(item);
+    let i = a.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (a[p][0] <= a[i][0]) break;
+      [a[p], a[i]] = [a[i], a[p]];
+      i = p;
+    }
+  }
+  pop(): [number, string] {
+    const a = this.items;
+    const top = a[0];
+    const last = a.pop()!;
+    if (a.length) {
+      a[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1, r = l + 1;
+        let m = i;
+        if (l < a.length && a[l][0] < a[m][0]) m = l;
+        if (r < a.length && a[r][0] < a[m][0]) m = r;
+        if (m === i) break;
+        [a[m], a[i]] = [a[i], a[m]];
+        i = m;
+      }
+    }
+    return top;
+  }
+}
+
+type Blocked = { nodes?: Set<string>; edges?: Set<string> };
+
+function dijkstra(graph: Graph, source: string, target: string, options: PathOptions, blocked: Blocked = {}): FoundPath | null {
+  if (!graph.hasNode(source) || !graph.hasNode(target)) return null;
+  const weighted = !!options.weighted;
+  const dist = new Map<string, number>([[source, 0]]);
+  const prev = new Map<string, { node: string; edge: string }>();
+  const done = new Set<string>();
+  const heap = new Heap();
+  heap.push([0, source]);
+  while (heap.size) {
+    const [d, node] = heap.pop();
+    if (done.has(node)) continue;
+    done.add(node);
+    if (node === target) break;
+    graph.forEachEdge(node, (edge, attrs, s, t) => {
+      const other = s === node ? t : s;
+      if (other === node || done.has(other) || blocked.nodes?.has(other) || blocked.edges?.has(edge)) return;
+      if (options.edgeFilter && !options.edgeFilter(edge)) return;
+      const nd = d + edgeCost(attrs, weighted);
+      if (nd < (dist.get(other) ?? Infinity)) {
+        dist.set(other, nd);
+        prev.set(other, { node, edge });
+        heap.push([nd, other]);
+      }
+    });
+  }
+  if (!done.has(target)) return null;
+  const nodes = [target];
+  const edges: string[] = [];
+  for (let n = target; n !== source; ) {
+    const step = prev.get(n)!;
+    edges.push(step.edge);
+    nodes.push(step.node);
+    n = step.node;
+  }
+  return { nodes: nodes.reverse(), edges: edges.reverse(), cost: dist.get(target)! };
+}
+
+export function shortestPath(graph: Graph, source: string, target: string, options: PathOptions = {}): FoundPath | null {
+  return dijkstra(graph, source, target, options);
+}
+
+// Up to k loopless paths, cheapest first (Yen's algorithm)
+export function kShortestPaths(graph: Graph, source: string, target: string, k: number, options: PathOptions = {}): FoundPath[] {
+  const first = dijkstra(graph, source, target, options);
+  if (!first) return [];
+  const found: FoundPath[] = [first];
+  const candidates: FoundPath[] = [];
+  const seen = new Set([first.edges.join("\n")]);
+  const weighted = !!options.weighted;
+  while (found.length < k) {
+    const last = found[found.length - 1];
+    for (let i = 0; i < last.nodes.length - 1; i++) {
+      const spur = last.nodes[i];
+      const rootNodes = last.nodes.slice(0, i + 1);
+      const rootEdges = last.edges.slice(0, i);
+      // Leave the paths already found that share this root, and do not revisit the root
+      const edges = new Set<string>();
+      for (const p of found) {
+        if (p.edges.length > i && rootEdges.every((e, j) => p.edges[j] === e)) edges.add(p.edges[i]);
+      }
+      const nodes = new Set(rootNodes.slice(0, -1));
+      const spurPath = dijkstra(graph, spur, target, options, { nodes, edges });
+      if (!spurPath) continue;
+      const pathEdges = [...rootEdges, ...spurPath.edges];
+      const key = pathEdges.join("\n");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const rootCost = rootEdges.reduce((c, e) => c + edgeCost(graph.getEdgeAttributes(e), weighted), 0);
+      candidates.push({ nodes: [...rootNodes, ...spurPath.nodes.slice(1)], edges: pathEdges, cost: rootCost + spurPath.cost });
+    }
+    if (!candidates.length) break;
+    candidates.sort((a, b) => a.cost - b.cost || a.edges.length - b.edges.length);
+    found.push(candidates.shift()!);
+  }
+  return found;
+}
+
+// Product of the path's AFMprobs, edges without one counted as certain
+export function pathProbability(graph: Graph, path: FoundPath): number {
+  return path.edges.reduce((p, e) => {
+    const prob = graph.getEdgeAttribute(e, "afmprob");
+    return typeof prob === "number" ? p * prob : p;
+  }, 1);
+}
@@ -0,0 +1,143 @@
+// lib/graphTiles.ts
+// Viewport tiles for graphs too large to ship to the browser whole. The dataset's graph.json is
+// parsed once per file version and indexed with a quadtree; a tile is the nodes inside a
+// bounding box at a given resolution (dense areas thinned to their highest-degree nodes), the
+// edges among them and the cluster meta-nodes. The viewer asks for a new tile as the camera moves.
+import { promises as fs } from "fs";
+import { datasetFile, type DatasetView } from "./datasets";
+import { buildQuadTree, queryQuadTree, boundsOf, type BBox, type QuadCell } from "./quadtree";
+
+export type TileNode = { id: string; label?: string; x: number; y: number; size?: number; degree?: number; community?: number | null };
+export type TileEdge = { id: string; source: string; target: string; weight?: number; allDBs?: string; afmprob?: number };
+export type TileCluster = { id: string; label?: string; x: number; y: number; size?: number; community: number; count: number };
+
+export type Tile = {
+  bounds: BBox;
+  total: { nodes: number; edges: number };
+  nodes: TileNode[];
+  edges: TileEdge[];
+  clusters: TileCluster[];
+  // More nodes matched than maxNodes allowed; the lightest were left out
+  truncated: boolean;
+};
+
+export type TileQuery = {
+  bbox?: BBox;
+  // World units per quadtree cell worth of detail; 0 returns every node in the box
+  resolution?: number;
+  maxNodes?: number;
+  // Always include this node and all of its neighbours (the viewer's focused node)
+  focus?: string;
+};
+
+type TileIndex = {
+  mtimeMs: number;
+  nodes: TileNode[];
+  edges: TileEdge[];
+  clusters: TileCluster[];
+  byId: Map<string, number>;
+  // Edge indices per node index
+  incident: number[][];
+  tree: QuadCell;
+  bounds: BBox;
+};
+
+export const DEFAULT_MAX_TILE_NODES = 5000;
+export const MAX_TILE_NODES = 20000;
+// Parsed graphs kept in memory; each can be hundreds of MB for the largest interactomes
+const MAX_CACHED = 2;
+
+const globalForTiles = global as unknown as { graphTiles?: Map<string, TileIndex> };
+const cache = (globalForTiles.graphTiles ??= new Map());
+
+function buildIndex(graph: any, mtimeMs: number): TileIndex {
+  const nodes: TileNode[] = (graph.nodes || []).map((n: any) => ({
+    id: String(n.id),
+    label: n.label,
+    x: Number(n.x) || 0,
+    y: Number(n.y) || 0,
+    size: n.size,
+    degree: n.degree ?? 0,
+    community: n.community ?? null,
+  }));
+  const byId = new Map(nodes.map((n, i) => [n.id, i]));
+  const edges: TileEdge[] = [];
+  const incident: number[][] = nodes.map(() => []);
+  for (const e of graph.edges || []) {
+    const s = byId.get(String(e.source));
+    const t = byId.get(String(e.target));
+    if (s === undefined || t === undefined) continue;
+    const k = edges.length;
+    edges.push({ id: String(e.id ?? `${e.source}-${e.target}`), source: String(e.source), target: String(e.target), weight: e.weight, allDBs: e.allDBs, afmprob: e.afmprob });
+    incident[s].push(k);
+    if (t !== s) incident[t].push(k);
+  }
+  const tree = buildQuadTree(nodes.map((n, index) => ({ x: n.x, y: n.y, weight: n.degree || 0, index })));
+  return { mtimeMs, nodes, edges, clusters: graph.clusters || [], byId, incident, tree, bounds: boundsOf(nodes) };
+}
+
+async function getTileIndex(datasetId: string, view: DatasetView): Promise<TileIndex> {
+  const { file } = await datasetFile(datasetId, view);
+  const stat = await fs.stat(file);
+  const cached = cache.get(file);
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached;
+  const index = buildIndex(JSON.parse(await fs.readFile(file, "utf8")), stat.mtimeMs);
+  cache.delete(file);
+  cache.set(file, index);
+  // Map iteration order is insertion order: evict the least recently built
+  while (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value as string);
+  return index;
+}
+
+export async function queryTile(datasetId: string, view: DatasetView, query: TileQuery): Promise<Tile> {
+  const index = await getTileIndex(datasetId, view);
+  const maxNodes = Math.min(MAX_TILE_NODES, Math.max(1, query.maxNodes ?? DEFAULT_MAX_TILE_NODES));
+  let hits = queryQuadTree(index.tree, query.bbox || index.bounds, query.resolution || 0);
+  const truncated = hits.length > maxNodes;
+  if (truncated) hits = hits.sort((a, b) => b.weight - a.weight).slice(0, maxNodes);
+
+  const selected = new Set(hits.map((p) => p.index));
+  const focus = query.focus !== undefined ? index.byId.get(query.focus) : undefined;
+  if (focus !== undefined) {
+    selected.add(focus);
+    for (const k of index.incident[focus]) {
+      const e = index.edges[k];
+      selected.add(index.byId.get(e.source)!);
+      selected.add(index.byId.get(e.target)!);
+    }
+  }
+
+  const edgeSet = new Set<number>();
+  for (const i of selected) {
+    for (const k of index.incident[i]) {
+      const e = index.edges[k];
+      if (selected.has(index.byId.get(e.source)!) && selected.has(index.byId.get(e.target)!)) edgeSet.add(k);
+    }
+  }
+
+  return {
+    bounds: index.bounds,
+    total: { nodes: index.nodes.length, edges: index.edges.length },
+    nodes: Array.from(selected, (i) => index.nodes[i]),
+    edges: Array.from(edgeSet, (k) => index.edges[k]),
+    clusters: index.clusters,
+    truncated,
+  };
+}
+
+// Name search over the whole graph, for nodes that are not materialized in the viewer.
+// Prefix matches first, like the viewer's own search box.
+export async function searchTileNodes(datasetId: string, view: DatasetView, q: string, limit = 8): Promise<Array<{ id: string; name: string; x: number; y: number }>> {
+  const index = await getTileIndex(datasetId, view);
+  const needle = q.trim().toLowerCase();
+  if (!needle) return [];
+  const starts: TileNode[] = [];
+  const contains: TileNode[] = [];
+  for (const n of index.nodes) {
+    const pos = (n.label || n.id).toLowerCase().indexOf(needle);
+    if (pos === 0) starts.push(n);
+    else if (pos > 0 && contains.length < limit) contains.push(n);
+    if (starts.length >= limit) break;
+  }
+  return [...starts, ...contains].slice(0, limit).map((n) => ({ id: n.id, name: n.label || n.id, x: n.x, y: n.y }));
+}
@@ -0,0 +1,175 @@
+// lib/jobs.ts
+// Background graph builds for the upload page. An uploaded TSV is handed to
+// `scripts/tsv-to-graph.js --dataset <id> --progress` in a child process; its PROGRESS lines are
+// folded into one 0..1 progress value. Layout is CPU bound, so jobs run one at a time and the
+// rest wait in a queue. Jobs live in memory and are forgotten on restart; the datasets they
+// registered are not.
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import readline from "readline";
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+// Column mapping and run options, passed through as tsv-to-graph.js flags
+export type GraphJobOptions = {
+  datasetId: string;
+  name?: string;
+  description?: string;
+  organism?: string;
+  minProb?: number;
+  columns?: Partial<Record<GraphColumn, string>>;
+};
+
+export const GRAPH_COLUMNS = ["source", "target", "name1", "name2", "allDBs", "afmprob", "locality1", "locality2"] as const;
+export type GraphColumn = (typeof GRAPH_COLUMNS)[number];
+
+export type Job = {
+  id: string;
+  datasetId: string;
+  fileName: string;
+  status: JobStatus;
+  stage?: string;
+  progress: number;
+  // Last lines of the script's output
+  log: string[];
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+};
+
+// Share of the whole run each script stage accounts for, in order
+const STAGES: Array<[string, number]> = [["read", 0.2], ["layout", 0.6], ["communities", 0.05], ["write", 0.05], ["locality", 0.1]];
+const MAX_LOG_LINES = 50;
+// Finished jobs are kept for the upload page's list up to this many, and for at most this long
+const MAX_FINISHED_JOBS = 50;
+const FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+const SCRIPT = path.join(process.cwd(), "scripts", "tsv-to-graph.js");
+
+type Entry = { job: Job; input: string; options: GraphJobOptions };
+const globalForJobs = global as unknown as { graphJobs?: { entries: Map<string, Entry>; running: string | null } };
+const state = (globalForJobs.graphJobs ??= { entries: new Map(), running: null });
+
+// Public view of a job; copies so callers cannot mutate the registry
+const snapshot = (job: Job): Job => ({ ...job, log: [...job.log] });
+
+// Forget finished jobs past the count or age limit; queued and running ones always stay
+function pruneJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  const finished = Array.from(state.entries.values())
+    .filter((e) => e.job.finishedAt)
+    .sort((a, b) => b.job.finishedAt!.localeCompare(a.job.finishedAt!));
+  finished.forEach((e, i) => {
+    if (i >= MAX_FINISHED_JOBS || Date.parse(e.job.finishedAt!) < cutoff) state.entries.delete(e.job.id);
+  });
+}
+
+function overallProgress(stage: string, fraction: number): number {
+  let done = 0;
+  for (const [name, weight] of STAGES) {
+    if (name === stage) return done + weight * fraction;
+    done += weight;
+  }
+  return done;
+}
+
+// One whole line of script output; the streams are read through readline, so a line split
+// across two data chunks arrives here joined
+function appendLine(job: Job, line: string) {
+  if (!line.trim()) return;
+  const m = line.match(/^PROGRESS (\w+) ([\d.]+)$/);
+  if (m) {
+    job.stage = m[1];
+    job.progress = Math.max(job.progress, overallProgress(m[1], Number(m[2])));
+    return;
+  }
+  job.log.push(line);
+  if (job.log.length > MAX_LOG_LINES) job.log.splice(0, job.log.length - MAX_LOG_LINES);
+}
+
+function scriptArgs(input: string, fileName: string, options: GraphJobOptions): string[] {
+  const flags: Array<[string, string | undefined]> = [
+    ["input", input],
+    ["dataset", options.datasetId],
+    ["inputName", fileName],
+    ["name", options.name],
+    ["description", options.description],
+    ["organism", options.organism],
+    ["minProb", options.minProb !== undefined ? String(options.minProb) : undefined],
+    ...GRAPH_COLUMNS.map((col): [string, string | undefined] => [col, options.columns?.[col]]),
+  ];
+  // --key=value throughout: parseArgs reads a separate value starting with "-" as another flag
+  return [SCRIPT, "--progress", ...flags.filter(([, v]) => v).map(([k, v]) => `--${k}=${v}`)];
+}
+
+function runNext() {
+  if (state.running) return;
+  const next = Array.from(state.entries.values()).find((e) => e.job.status === "queued");
+  if (!next) return;
+  const { job, input, options } = next;
+  state.running = job.id;
+  job.status = "running";
+
+  const finish = (error?: string) => {
+    if (job.status !== "running") return;
+    job.status = error ? "failed" : "done";
+    job.error = error;
+    if (!error) job.progress = 1;
+    job.finishedAt = new Date().toISOString();
+    state.running = null;
+    fs.unlink(input).catch(() => {});
+    pruneJobs();
+    runNext();
+  };
+
+  // The script's own error message is the first stderr line; a stack trace follows it
+  let firstError = "";
+  const child = spawn(process.execPath, scriptArgs(input, job.fileName, options), { cwd: process.cwd(), stdio: ["ignore", "pipe", "pipe"] });
+  readline.createInterface({ input: child.stdout, crlfDelay: Infinity }).on("line", (line) => appendLine(job, line));
+  readline.createInterface({ input: child.stderr, crlfDelay: Infinity }).on("line", (line) => {
+    if (!firstError && line.trim()) firstError = line;
+    appendLine(job, line);
+  });
+  child.on("error", (err) => finish(err.message));
+  child.on("close", (code) => finish(code === 0 ? undefined : firstError || `tsv-to-graph.js exited with code ${code}`));
+}
+
+// Queue a build for a TSV already written to `input`; the job deletes the file when it ends.
+export function startGraphJob(input: string, fileName: string, options: GraphJobOptions): Job {
+  const job: Job = {
+    id: randomUUID(),
+    datasetId: options.datasetId,
+    fileName,
+    status: "queued",
+    progress: 0,
+    log: [],
+    createdAt: new Date().toISOString(),
+  };
+  pruneJobs();
+  state.entries.set(job.id, { job, input, options });
+  runNext();
+  return snapshot(job);
+}
+
+// Where uploads wait for their job; outside the datasets dir so half-written files never
+// look like datasets
+export async function uploadPath(): Promise<string> {
+  const dir = path.join(os.tmpdir(), "ppi-uploads");
+  await fs.mkdir(dir, { recursive: true });
+  return path.join(dir, `${randomUUID()}.tsv`);
+}
+
+export const getJob = (id: string): Job | undefined => {
+  const entry = state.entries.get(id);
+  return entry ? snapshot(entry.job) : undefined;
+};
+
+// Newest first
+export const listJobs = (): Job[] =>
+  Array.from(state.entries.values()).map((e) => snapshot(e.job)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Dataset ids claimed by jobs that have not finished yet
+export const pendingDatasetIds = (): Set<string> =>
+  new Set(Array.from(state.entries.values()).filter((e) => e.job.status === "queued" || e.job.status === "running").map((e) => e.job.datasetId));
@@ -0,0 +1,186 @@
+// lib/kegg.ts
+// rest.kegg.jp client for the /api/kegg proxy routes with an on-disk cache.
+//
+// Environment:
+//   KEGG_CACHE_DIR       cache directory (default: .cache/kegg under the project root)
+//   KEGG_CACHE_TTL_HOURS how long a cached response counts as fresh (default: 168 = 1 week)
+//   KEGG_TIMEOUT_MS      upstream request timeout (default: 15000)
+//   KEGG_OFFLINE=1       never contact KEGG; serve whatever is cached regardless of age
+import { promises as fs } from "fs";
+import path from "path";
+
+const KEGG_BASE = "https://rest.kegg.jp";
+
+const CACHE_DIR = process.env.KEGG_CACHE_DIR || path.join(process.cwd(), ".cache", "kegg");
+const TTL_MS = Number(process.env.KEGG_CACHE_TTL_HOURS || 168) * 3600 * 1000;
+const TIMEOUT_MS = Number(process.env.KEGG_TIMEOUT_MS || 15000);
+
+export const isKeggOffline = () => process.env.KEGG_OFFLINE === "1" || process.env.KEGG_OFFLINE === "true";
+
+// HIT: fresh cache, MISS: fetched from KEGG, STALE: expired cache served because KEGG was unreachable
+export type CacheStatus = "HIT" | "MISS" | "STALE";
+
+export class KeggError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "KeggError";
+  }
+}
+
+function cacheFile(key: string) {
+  // Keys look like "get/hsa04150/kgml" or "get/hsa:7157"
+  const safe = key.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return path.join(CACHE_DIR, `${safe}.txt`);
+}
+
+async function readCache(key: string): Promise<{ body: string; fresh: boolean } | null> {
+  try {
+    const file = cacheFile(key);
+    const [body, stat] = await Promise.all([fs.readFile(file, "utf8"), fs.stat(file)]);
+    return { body, fresh: Date.now() - stat.mtimeMs < TTL_MS };
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(key: string, body: string) {
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    // Write then rename so a concurrent reader never sees a partial file
+    const file = cacheFile(key);
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, body, "utf8");
+    await fs.rename(tmp, file);
+  } catch (err) {
+    console.warn("[kegg] cache write failed", key, err);
+  }
+}
+
+async function fetchUpstream(key: string): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(`${KEGG_BASE}/${key}`, { signal: AbortSignal.timeout(TIMEOUT_MS), cache: "no-store" });
+  } catch (err: any) {
+    if (err?.name === "TimeoutError" || err?.name === "AbortError") throw new KeggError("KEGG request timed out", 504);
+    throw new KeggError("KEGG is unreachable", 502);
+  }
+  const body = await res.text();
+  // KEGG answers unknown ids with 404 and malformed requests with 400; pass those through,
+  // anything else non-OK is reported as a bad gateway.
+  if (res.status === 404 || (res.ok && !body.trim())) throw new KeggError("Not found in KEGG", 404);
+  if (res.status === 400) throw new KeggError("Bad KEGG request", 400);
+  if (!res.ok) throw new KeggError(`KEGG responded ${res.status}`, 502);
+  return body;
+}
+
+// GET rest.kegg.jp/<key>, served from cache when fresh (or always, when offline).
+export async function keggGet(key: string): Promise<{ body: string; cache: CacheStatus }> {
+  const cached = await readCache(key);
+  if (cached && (cached.fresh || isKeggOffline())) return { body: cached.body, cache: "HIT" };
+  if (isKeggOffline()) throw new KeggError("KEGG offline mode: not in cache", 503);
+  try {
+    const body = await fetchUpstream(key);
+    await writeCache(key, body);
+    return { body, cache: "MISS" };
+  } catch (err) {
+    // Only fall back for transport/upstream failures; a definitive 404/400 wins over old data
+    if (cached && err instanceof KeggError && err.status >= 500) return { body: cached.body, cache: "STALE" };
+    throw err;
+  }
+}
+
+// Split a multi-entry flat file (as returned by get/a+b+c) into its "///"-terminated records.
+export function splitFlatFile(text: string): string[] {
+  return text
+    .split(/^\/\/\/\s*$/m)
+    .map((s) => s.replace(/^\s*\n/, ""))
+    .filter((s) => s.trim())
+    .map((s) => `${s.trimEnd()}\n///\n`);
+}
+
+// The local part of the ENTRY line ("ENTRY       7157              CDS       T01001" -> "7157")
+function entryName(record: string): string | null {
+  const m = record.match(/^ENTRY\s+(\S+)/m);
+  return m ? m[1] : null;
+}
+
+// KEGG's get operation accepts at most this many entries per request
+export const KEGG_GET_MAX_ENTRIES = 10;
+const CONCURRENCY = Math.max(1, Number(process.env.KEGG_CONCURRENCY || 3));
+
+// Gene ids in organism:locus form, e.g. "hsa:7157" or "sce:yal001c" (ids arrive lowercased)
+const GENE_ID_RE = /^[a-z]{3,4}:[a-z0-9._-]+$/;
+export const isKeggGeneId = (id: string) => GENE_ID_RE.test(id);
+
+// Run `fn` over `items` with at most `limit` calls in flight; results keep input order.
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+// Fetch one KEGG-sized batch and cache each record. Records are matched back to the
+// requested ids by their ENTRY line since KEGG silently skips unknown ids.
+async function fetchEntryBatch(ids: string[], records: Map<string, string>) {
+  const body = await fetchUpstream(`get/${ids.join("+")}`);
+  const byName = new Map<string, string>();
+  for (const rec of splitFlatFile(body)) {
+    const name = entryName(rec);
+    if (name) byName.set(name.toLowerCase(), rec);
+  }
+  for (const id of ids) {
+    const rec = byName.get(id.split(":")[1].toLowerCase());
+    if (!rec) continue;
+    records.set(id, rec);
+    await writeCache(`get/${id}`, rec);
+  }
+}
+
+// Fetch gene entries ("hsa:7157") individually cached, so offline mode can serve any gene
+// that was ever looked up. Uncached ids are fetched in batches of KEGG_GET_MAX_ENTRIES.
+export async function keggGetEntries(ids: string[]): Promise<{ text: string; cache: CacheStatus; missing: string[] }> {
+  const records = new Map<string, string>();
+  const toFetch: string[] = [];
+  for (const id of ids) {
+    const cached = await readCache(`get/${id}`);
+    if (cached && (cached.fresh || isKeggOffline())) records.set(id, cached.body);
+    else toFetch.push(id);
+  }
+
+  let cache: CacheStatus = toFetch.length && !isKeggOffline() ? "MISS" : "HIT";
+  if (toFetch.length && !isKeggOffline()) {
+    const batches: string[][] = [];
+    for (let i = 0; i < toFetch.length; i += KEGG_GET_MAX_ENTRIES) batches.push(toFetch.slice(i, i + KEGG_GET_MAX_ENTRIES));
+    const failures = (await mapLimit(batches, CONCURRENCY, async (batch) => {
+      try {
+        await fetchEntryBatch(batch, records);
+        return null;
+      } catch (err) {
+        // A 404 only means none of this batch exists; anything else is a real failure
+        if (err instanceof KeggError && err.status === 404) return null;
+        return { batch, err };
+      }
+    })).filter((f): f is { batch: string[]; err: unknown } => f !== null);
+
+    for (const { batch, err } of failures) {
+      if (!(err instanceof KeggError) || err.status < 500) throw err;
+      // Serve expired entries when KEGG is down
+      for (const id of batch) {
+        const cached = await readCache(`get/${id}`);
+        if (cached) { records.set(id, cached.body); cache = "STALE"; }
+      }
+    }
+    if (!records.size && failures.length) throw failures[0].err;
+  }
+
+  const missing = ids.filter((id) => !records.has(id));
+  if (!records.size) throw new KeggError(isKeggOffline() ? "KEGG offline mode: not in cache" : "Not found in KEGG", isKeggOffline() ? 503 : 404);
+  return { text: ids.map((id) => records.get(id)).filter(Boolean).join(""), cache, missing };
+}
@@ -0,0 +1,127 @@
+// lib/keggCatalog.ts
+// Searchable pathway catalog for the pathways page: KEGG list/pathway/<org> joined with the
+// br08901 pathway hierarchy for categories, plus "pathways containing gene X" lookups.
+// All upstream calls go through keggGet, so the catalog is cached on disk like everything else.
+import { keggGet, isKeggGeneId, KeggError, type CacheStatus } from "./kegg";
+
+export type PathwayInfo = {
+  id: string; // "hsa04010"
+  name: string; // "MAPK signaling pathway"
+  category?: string; // "Environmental Information Processing"
+  subcategory?: string; // "Signal transduction"
+};
+
+// Worst of several cache statuses, for one X-Cache header over multiple upstream reads
+function combineCache(statuses: CacheStatus[]): CacheStatus {
+  if (statuses.includes("STALE")) return "STALE";
+  if (statuses.includes("MISS")) return "MISS";
+  return "HIT";
+}
+
+// "path:hsa04010\tMAPK signaling pathway - Homo sapiens (human)" (the "path:" prefix is optional)
+export function parsePathwayList(text: string): PathwayInfo[] {
+  const out: PathwayInfo[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [rawId, rawName] = line.split("\t");
+    if (!rawId || !rawName) continue;
+    const id = rawId.trim().replace(/^path:/, "");
+    // Drop the organism suffix KEGG appends to every name
+    const name = rawName.trim().replace(/\s+-\s+[^-]+\([^()]*\)$/, "");
+    out.push({ id, name });
+  }
+  return out;
+}
+
+// Map number ("04010") -> category/subcategory from br08901 htext. A and B lines are the
+// two category levels ("A09130 Environmental Information Processing", older files wrap the
+// text in <b>), C lines are maps ("C    04010  MAPK signaling pathway").
+export function parsePathwayHierarchy(text: string): Map<string, { category: string; subcategory: string }> {
+  const out = new Map<string, { category: string; subcategory: string }>();
+  const label = (s: string) => s.replace(/<[^>]+>/g, "").trim().replace(/^\d{5}\s+/, "");
+  let category = "";
+  let subcategory = "";
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("A")) { category = label(line.slice(1)); subcategory = ""; }
+    else if (line.startsWith("B")) subcategory = label(line.slice(1));
+    else if (line.startsWith("C")) {
+      const m = line.slice(1).trim().match(/^(\d{5})\s/);
+      if (m) out.set(m[1], { category, subcategory });
+    }
+  }
+  return out;
+}
+
+export async function getPathwayCatalog(org: string): Promise<{ pathways: PathwayInfo[]; cache: CacheStatus }> {
+  const list = await keggGet(`list/pathway/${org}`);
+  const pathways = parsePathwayList(list.body);
+  const statuses: CacheStatus[] = [list.cache];
+  // Categories are a nice-to-have; the catalog still works without them
+  try {
+    const brite = await keggGet("get/br:br08901");
+    statuses.push(brite.cache);
+    const hierarchy = parsePathwayHierarchy(brite.body);
+    for (const p of pathways) {
+      const h = hierarchy.get(p.id.slice(-5));
+      if (h) { p.category = h.category; p.subcategory = h.subcategory; }
+    }
+  } catch (err) {
+    console.warn("[kegg] pathway hierarchy unavailable", err instanceof KeggError ? err.message : err);
+  }
+  return { pathways, cache: combineCache(statuses) };
+}
+
+// Case-insensitive match on id, name, category or subcategory; every word must match.
+export function filterPathways(pathways: PathwayInfo[], query: string): PathwayInfo[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return pathways;
+  return pathways.filter((p) => {
+    const hay = `${p.id} ${p.name} ${p.category || ""} ${p.subcategory || ""}`.toLowerCase();
+    return words.every((w) => hay.includes(w));
+  });
+}
+
+// Resolve a gene symbol or KEGG gene id to KEGG gene ids of `org`. find/<org>/<symbol> does
+// a fuzzy search, so keep only entries that list the symbol among their names.
+async function resolveGene(org: string, gene: string): Promise<{ ids: string[]; cache: CacheStatus }> {
+  const q = gene.trim();
+  if (isKeggGeneId(q.toLowerCase())) return { ids: [q.toLowerCase()], cache: "HIT" };
+  if (/^\d+$/.test(q)) return { ids: [`${org}:${q}`], cache: "HIT" };
+  let found: { body: string; cache: CacheStatus };
+  try {
+    found = await keggGet(`find/${org}/${encodeURIComponent(q)}`);
+  } catch (err) {
+    if (err instanceof KeggError && err.status === 404) return { ids: [], cache: "MISS" };
+    throw err;
+  }
+  const target = q.toLowerCase();
+  const ids: string[] = [];
+  for (const line of found.body.split(/\r?\n/)) {
+    // "hsa:7157\t[CDS\t17:complement(...)\t]TP53, BCC7, P53; tumor protein p53": names are the last column
+    const cols = line.split("\t");
+    const id = cols[0];
+    const desc = cols.length > 1 ? cols[cols.length - 1] : "";
+    if (!id || !desc) continue;
+    const names = desc.split(";")[0].split(",").map((s) => s.trim().toLowerCase());
+    if (names.includes(target)) ids.push(id.trim());
+  }
+  return { ids, cache: found.cache };
+}
+
+// Pathway ids of `org` that contain `gene` (symbol, "hsa:7157", "sce:YAL001C" or bare "7157").
+export async function pathwaysForGene(org: string, gene: string): Promise<{ geneIds: string[]; pathwayIds: string[]; cache: CacheStatus }> {
+  const resolved = await resolveGene(org, gene);
+  if (!resolved.ids.length) return { geneIds: [], pathwayIds: [], cache: resolved.cache };
+  let links: { body: string; cache: CacheStatus };
+  try {
+    links = await keggGet(`link/pathway/${resolved.ids.join("+")}`);
+  } catch (err) {
+    if (err instanceof KeggError && err.status === 404) return { geneIds: resolved.ids, pathwayIds: [], cache: resolved.cache };
+    throw err;
+  }
+  const pathwayIds = new Set<string>();
+  for (const line of links.body.split(/\r?\n/)) {
+    const target = (line.split("\t")[1] || "").trim().replace(/^path:/, "");
+    if (target) pathwayIds.add(target);
+  }
+  return { geneIds: resolved.ids, pathwayIds: Array.from(pathwayIds), cache: combineCache([resolved.cache, links.cache]) };
+}
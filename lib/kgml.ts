@@ -0,0 +1,150 @@
+// lib/kgml.ts
+// KGML (KEGG Markup Language) parser producing plain JSON. Runs anywhere (no DOM), so the
+// pathway route, scripts and viewers share one reading of entries, groups and relations.
+// Reference: https://www.kegg.jp/kegg/xml/docs/
+import { XMLParser } from "fast-xml-parser";
+
+export type KgmlGraphics = {
+  name: string;
+  type: string; // rectangle | circle | roundrectangle | line
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fgcolor: string;
+  bgcolor: string;
+  // Polyline points for type="line" (x1,y1,x2,y2,...)
+  coords?: number[];
+};
+
+export type KgmlEntry = {
+  id: string;
+  // Space separated KEGG ids as in the file, e.g. "hsa:7157 hsa:7158"
+  name: string;
+  keggIds: string[];
+  type: string; // gene | ortholog | enzyme | compound | map | group | ...
+  link?: string;
+  reaction?: string;
+  graphics: KgmlGraphics[];
+  // Member entry ids for type="group"
+  components: string[];
+};
+
+export type KgmlSubtype = { name: string; value: string };
+
+export type KgmlRelation = {
+  entry1: string;
+  entry2: string;
+  type: string; // ECrel | PPrel | GErel | PCrel | maplink
+  subtypes: KgmlSubtype[];
+};
+
+export type KgmlReaction = {
+  id: string;
+  name: string;
+  type: string; // reversible | irreversible
+  substrates: Array<{ id: string; name: string }>;
+  products: Array<{ id: string; name: string }>;
+};
+
+export type KgmlPathway = {
+  name: string;
+  org: string;
+  number: string;
+  title: string;
+  image?: string;
+  link?: string;
+  // Only present when the file carries them; KEGG's own KGML usually does not
+  width?: number;
+  height?: number;
+  entries: KgmlEntry[];
+  relations: KgmlRelation[];
+  reactions: KgmlReaction[];
+};
+
+const ARRAY_TAGS = new Set(["entry", "graphics", "component", "relation", "subtype", "reaction", "substrate", "product"]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseAttributeValue: false,
+  isArray: (tagName) => ARRAY_TAGS.has(tagName),
+});
+
+const str = (v: unknown) => (v === undefined || v === null ? "" : String(v));
+const num = (v: unknown, fallback = 0) => {
+  const n = parseFloat(str(v));
+  return Number.isFinite(n) ? n : fallback;
+};
+const optional = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : String(v));
+
+export class KgmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KgmlParseError";
+  }
+}
+
+export function parseKgml(xml: string): KgmlPathway {
+  let doc: any;
+  try {
+    doc = parser.parse(xml);
+  } catch (err) {
+    throw new KgmlParseError(`Malformed KGML: ${(err as Error).message}`);
+  }
+  const p = doc?.pathway;
+  if (!p || typeof p !== "object") throw new KgmlParseError("Missing <pathway> root element");
+
+  const entries: KgmlEntry[] = (p.entry || []).map((e: any) => {
+    const name = str(e.name);
+    return {
+      id: str(e.id),
+      name,
+      keggIds: name.split(/\s+/).filter(Boolean),
+      type: str(e.type),
+      link: optional(e.link),
+      reaction: optional(e.reaction),
+      graphics: (e.graphics || []).map((g: any) => ({
+        name: str(g.name),
+        type: str(g.type) || "rectangle",
+        x: num(g.x),
+        y: num(g.y),
+        width: num(g.width, 60),
+        height: num(g.height, 20),
+        fgcolor: str(g.fgcolor) || "#000000",
+        bgcolor: str(g.bgcolor) || "#FFFFFF",
+        ...(g.coords ? { coords: str(g.coords).split(",").map((c) => num(c)) } : {}),
+      })),
+      components: (e.component || []).map((c: any) => str(c.id)),
+    };
+  });
+
+  const relations: KgmlRelation[] = (p.relation || []).map((r: any) => ({
+    entry1: str(r.entry1),
+    entry2: str(r.entry2),
+    type: str(r.type),
+    subtypes: (r.subtype || []).map((s: any) => ({ name: str(s.name), value: str(s.value) })),
+  }));
+
+  const reactions: KgmlReaction[] = (p.reaction || []).map((r: any) => ({
+    id: str(r.id),
+    name: str(r.name),
+    type: str(r.type),
+    substrates: (r.substrate || []).map((s: any) => ({ id: str(s.id), name: str(s.name) })),
+    products: (r.product || []).map((s: any) => ({ id: str(s.id), name: str(s.name) })),
+  }));
+
+  return {
+    name: str(p.name),
+    org: str(p.org),
+    number: str(p.number),
+    title: str(p.title),
+    image: optional(p.image),
+    link: optional(p.link),
+    width: p.width !== undefined ? num(p.width) : undefined,
+    height: p.height !== undefined ? num(p.height) : undefined,
+    entries,
+    relations,
+    reactions,
+  };
+}
@@ -0,0 +1,84 @@
+// lib/liveLayout.ts
+// In-browser ForceAtlas2 for the graph viewer. The layout runs in a web worker
+// (graphology-layout-forceatlas2/worker) on a copy of a subgraph, typically what survives the
+// viewer's filters, and the positions are copied back into the viewer's graph once per frame so
+// Sigma shows the refinement live. Nodes outside the subgraph stay where they are.
+import Graph from "graphology";
+import FA2LayoutSupervisor from "graphology-layout-forceatlas2/worker";
+import { inferSettings } from "graphology-layout-forceatlas2";
+
+export type LayoutSettings = {
+  gravity: number;
+  scalingRatio: number;
+  slowDown: number;
+  linLogMode: boolean;
+  barnesHutOptimize: boolean;
+};
+
+export type LayoutSubgraph = {
+  nodes: Array<{ id: string; x: number; y: number; size?: number }>;
+  edges: Array<{ source: string; target: string; weight?: number }>;
+};
+
+export type LiveLayout = {
+  nodes: number;
+  edges: number;
+  isRunning(): boolean;
+  // Stops iterating and writes the last positions; the layout cannot be restarted
+  stop(): void;
+};
+
+// graphology's suggestions for a graph of this size, with the knobs the viewer exposes
+export function defaultLayoutSettings(order: number): LayoutSettings {
+  const inferred = inferSettings(order);
+  return {
+    gravity: inferred.gravity ?? 1,
+    scalingRatio: inferred.scalingRatio ?? 1,
+    slowDown: inferred.slowDown ?? 1,
+    linLogMode: false,
+    barnesHutOptimize: inferred.barnesHutOptimize ?? order > 2000,
+  };
+}
+
+export function startLiveLayout(target: Graph, subgraph: LayoutSubgraph, settings: LayoutSettings): LiveLayout {
+  const sub = new Graph({ type: "undirected" });
+  for (const n of subgraph.nodes) sub.addNode(n.id, { x: n.x, y: n.y, size: n.size ?? 1 });
+  for (const e of subgraph.edges) {
+    if (e.source === e.target || !sub.hasNode(e.source) || !sub.hasNode(e.target) || sub.hasEdge(e.source, e.target)) continue;
+    sub.addEdge(e.source, e.target, { weight: e.weight ?? 1 });
+  }
+
+  const supervisor = new FA2LayoutSupervisor(sub, { settings });
+  // One batched update per frame: Sigma redraws once per eachNodeAttributesUpdated event
+  const writeBack = () => {
+    target.updateEachNodeAttributes((node, attrs) => {
+      if (!sub.hasNode(node)) return attrs;
+      const p = sub.getNodeAttributes(node);
+      attrs.x = p.x;
+      attrs.y = p.y;
+      return attrs;
+    }, { attributes: ["x", "y"] });
+  };
+  let frame = 0;
+  const loop = () => {
+    writeBack();
+    frame = requestAnimationFrame(loop);
+  };
+
+  supervisor.start();
+  frame = requestAnimationFrame(loop);
+  let running = true;
+
+  return {
+    nodes: sub.order,
+    edges: sub.size,
+    isRunning: () => running,
+    stop() {
+      if (!running) return;
+      running = false;
+      cancelAnimationFrame(frame);
+      supervisor.kill();
+      writeBack();
+    },
+  };
+}
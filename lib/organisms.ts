@@ -0,0 +1,39 @@
+// lib/organisms.ts
+// Organisms the viewers know by KEGG code, with the ids other services use for them.
+// Pure data and string helpers, safe to import from client components and API routes alike.
+
+export type Organism = {
+  code: string; // KEGG organism code, also the prefix of pathway ids (hsa04010) and gene ids (hsa:7157)
+  name: string;
+  // NCBI taxonomy id; MyGene.info `species` and UniProt `organism_id` both accept it
+  taxId: number;
+};
+
+export const ORGANISMS: Organism[] = [
+  { code: "hsa", name: "Homo sapiens (human)", taxId: 9606 },
+  { code: "mmu", name: "Mus musculus (mouse)", taxId: 10090 },
+  { code: "rno", name: "Rattus norvegicus (rat)", taxId: 10116 },
+  { code: "dre", name: "Danio rerio (zebrafish)", taxId: 7955 },
+  { code: "dme", name: "Drosophila melanogaster (fruit fly)", taxId: 7227 },
+  { code: "cel", name: "Caenorhabditis elegans (nematode)", taxId: 6239 },
+  { code: "sce", name: "Saccharomyces cerevisiae (budding yeast)", taxId: 559292 },
+];
+
+export const DEFAULT_ORGANISM = "hsa";
+
+export const isOrgCode = (org: string) => /^[a-z]{3,4}$/.test(org);
+
+export const organismByCode = (code: string): Organism | undefined => ORGANISMS.find((o) => o.code === code);
+
+// "mmu04010" -> "mmu". Reference maps (map04010, ko04010) have no organism.
+export function pathwayOrganism(pathwayId: string): string | null {
+  const m = pathwayId.trim().toLowerCase().match(/^([a-z]{2,4})\d{5}$/);
+  return m && m[1] !== "map" && m[1] !== "ko" && m[1] !== "ec" && m[1] !== "rn" ? m[1] : null;
+}
+
+// The same map for another organism: ("hsa04150", "mmu") -> "mmu04150"
+export const pathwayForOrganism = (pathwayId: string, org: string) => `${org}${pathwayId.trim().slice(-5)}`;
+
+// KEGG gene ids of `org` in a space separated KGML name ("hsa:7157 hsa:7158"). Locus tags are
+// not always numeric (sce:YAL001C), so anything after the prefix counts.
+export const orgGeneIds = (keggIds: string, org: string) => keggIds.split(/\s+/).filter((id) => id.startsWith(`${org}:`) && id.length > org.length + 1);
@@ -0,0 +1,222 @@
+// lib/overlay.ts
+// Experiment overlays for KEGG pathway drawings: parse a user CSV/TSV of gene-level or
+// gene-pair values and map it onto KGML relations (edge keys "entry1|entry2").
+// Every numeric column is a condition (treatment, time point, ...), so one table can be
+// played back across conditions.
+
+// `values[i]` belongs to `conditions[i]`; NaN where the cell was empty or not numeric
+export type OverlayRow = { a: string; b?: string; values: number[] };
+
+export type OverlayTable = {
+  // "pair": one value per interaction (a -> b); "gene": one value per gene
+  kind: "pair" | "gene";
+  rows: OverlayRow[];
+  conditions: string[];
+  // Data lines dropped because no condition had a numeric value
+  skipped: number;
+};
+
+export class OverlayParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OverlayParseError";
+  }
+}
+
+const SOURCE_COLS = ["source", "gene1", "symbol1", "id1", "protein1", "name1", "node1", "from", "a"];
+const TARGET_COLS = ["target", "gene2", "symbol2", "id2", "protein2", "name2", "node2", "to", "b"];
+const GENE_COLS = ["gene", "symbol", "gene_symbol", "genesymbol", "gene_id", "kegg_id", "kegg", "id", "name", "protein"];
+// Statistics columns that sit next to values in DE tables but are not conditions
+const STAT_COLS = /^(p|pval|pvalue|p_value|p\.value|padj|p_adj|adj\.p\.val|fdr|qvalue|q_value|qval)$/;
+
+function splitLine(line: string, delim: string): string[] {
+  return line.split(delim).map((c) => c.trim().replace(/^"(.*)"$/, "$1").trim());
+}
+
+// Parse a delimited table with a header row. Tabs win over commas when the header has any.
+export function parseOverlayTable(text: string): OverlayTable {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() && !l.startsWith("#"));
+  if (!lines.length) throw new OverlayParseError("File is empty");
+  const delim = lines[0].includes("\t") ? "\t" : lines[0].includes(";") && !lines[0].includes(",") ? ";" : ",";
+  const header = splitLine(lines[0], delim).map((h) => h.toLowerCase());
+  const find = (names: string[]) => {
+    for (const n of names) {
+      const i = header.indexOf(n);
+      if (i >= 0) return i;
+    }
+    return -1;
+  };
+
+  const src = find(SOURCE_COLS);
+  const tgt = find(TARGET_COLS);
+  const kind: OverlayTable["kind"] = src >= 0 && tgt >= 0 ? "pair" : "gene";
+  const gene = kind === "gene" ? find(GENE_COLS) : -1;
+  if (kind === "gene" && gene < 0) {
+    throw new OverlayParseError("No gene column found (expected gene/symbol/kegg_id, or source + target for pairs)");
+  }
+  const idCols = kind === "pair" ? [src, tgt] : [gene];
+
+  // Condition columns: every non-id, non-statistics column that is numeric in some data line
+  const data = lines.slice(1).map((l) => splitLine(l, delim));
+  const isNum = (c: string | undefined) => c !== undefined && c !== "" && Number.isFinite(Number(c));
+  const valueCols = header
+    .map((h, i) => i)
+    .filter((i) => !idCols.includes(i) && !STAT_COLS.test(header[i]) && data.some((cells) => isNum(cells[i])));
+  if (!valueCols.length) throw new OverlayParseError("No numeric value column found");
+
+  const rows: OverlayRow[] = [];
+  let skipped = 0;
+  for (const cells of data) {
+    const values = valueCols.map((i) => (isNum(cells[i]) ? Number(cells[i]) : NaN));
+    const a = cells[idCols[0]];
+    const b = kind === "pair" ? cells[idCols[1]] : undefined;
+    if (!a || (kind === "pair" && !b) || !values.some(Number.isFinite)) { skipped++; continue; }
+    rows.push(kind === "pair" ? { a, b, values } : { a, values });
+  }
+  if (!rows.length) throw new OverlayParseError("No rows with a numeric value");
+  return { kind, rows, conditions: valueCols.map((i) => header[i]), skipped };
+}
+
+// Largest |value| over every row and condition, so colors stay comparable across conditions
+export function tableMaxAbs(table: OverlayTable): number {
+  let m = 0;
+  for (const r of table.rows) for (const v of r.values) if (Number.isFinite(v)) m = Math.max(m, Math.abs(v));
+  return m;
+}
+
+export type OverlayNode = {
+  id: string;
+  // Identifiers the node answers to: KEGG ids ("hsa:7157"), bare gene numbers, symbols, synonyms
+  names: string[];
+  // Member node ids for KGML groups
+  components?: string[];
+};
+
+export type OverlayMapping = {
+  // Values of one condition scaled into [-1, 1] by the table-wide `maxAbs`, keyed "source|target"
+  values: Record<string, number>;
+  maxAbs: number;
+  matchedRows: number;
+  matchedEdges: number;
+};
+
+// Map a parsed table onto relations. Pair rows color the relation between the two genes
+// (either direction); gene rows color a relation with the mean of its endpoint values, where
+// an entry's value is its most extreme member gene.
+export function mapOverlayToRelations(table: OverlayTable, nodes: OverlayNode[], relations: Array<{ source: string; target: string }>, condition = 0): OverlayMapping {
+  const valueAt = (i: number) => table.rows[i].values[condition];
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const namesOf = (id: string, seen = new Set<string>()): string[] => {
+    const n = nodeById.get(id);
+    if (!n || seen.has(id)) return [];
+    seen.add(id);
+    const own = n.names.map((s) => s.toLowerCase());
+    return (n.components || []).reduce((acc, c) => acc.concat(namesOf(c, seen)), own);
+  };
+
+  const raw: Record<string, number> = {};
+  const usedRows = new Set<number>();
+
+  if (table.kind === "pair") {
+    const byPair = new Map<string, number[]>();
+    table.rows.forEach((r, i) => {
+      if (!Number.isFinite(r.values[condition])) return;
+      const k = `${r.a.toLowerCase()}|${(r.b || "").toLowerCase()}`;
+      if (!byPair.has(k)) byPair.set(k, []);
+      byPair.get(k)!.push(i);
+    });
+    for (const rel of relations) {
+      const sNames = namesOf(rel.source);
+      const tNames = namesOf(rel.target);
+      let hit: number | undefined;
+      outer: for (const [x, y] of [[sNames, tNames], [tNames, sNames]]) {
+        for (const a of x) for (const b of y) {
+          const idx = byPair.get(`${a}|${b}`);
+          if (idx) { hit = idx[0]; idx.forEach((i) => usedRows.add(i)); break outer; }
+        }
+      }
+      if (hit !== undefined) raw[`${rel.source}|${rel.target}`] = valueAt(hit);
+    }
+  } else {
+    const byGene = new Map<string, number>();
+    table.rows.forEach((r, i) => { if (Number.isFinite(r.values[condition]) && !byGene.has(r.a.toLowerCase())) byGene.set(r.a.toLowerCase(), i); });
+    const entryValue = new Map<string, number | undefined>();
+    const valueOf = (id: string) => {
+      if (entryValue.has(id)) return entryValue.get(id);
+      let best: number | undefined;
+      for (const name of namesOf(id)) {
+        const i = byGene.get(name);
+        if (i === undefined) continue;
+        usedRows.add(i);
+        const v = valueAt(i);
+        if (best === undefined || Math.abs(v) > Math.abs(best)) best = v;
+      }
+      entryValue.set(id, best);
+      return best;
+    };
+    for (const rel of relations) {
+      const vals = [valueOf(rel.source), valueOf(rel.target)].filter((v): v is number => v !== undefined);
+      if (vals.length) raw[`${rel.source}|${rel.target}`] = vals.reduce((s, v) => s + v, 0) / vals.length;
+    }
+  }
+
+  const keys = Object.keys(raw);
+  const maxAbs = tableMaxAbs(table);
+  const scale = maxAbs > 1 ? maxAbs : 1;
+  const values: Record<string, number> = {};
+  for (const k of keys) values[k] = raw[k] / scale;
+  return { values, maxAbs, matchedRows: usedRows.size, matchedEdges: keys.length };
+}
+
+// Per-gene values of one condition keyed by lowercase identifier (symbol or KEGG gene id).
+export function geneValues(table: OverlayTable, condition = 0): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (table.kind !== "gene") return out;
+  for (const r of table.rows) {
+    const k = r.a.toLowerCase();
+    if (!(k in out) && Number.isFinite(r.values[condition])) out[k] = r.values[condition];
+  }
+  return out;
+}
+
+export type ColorScale = {
+  min: number;
+  center: number;
+  max: number;
+  lowColor: string;
+  midColor: string;
+  highColor: string;
+};
+
+export const DEFAULT_COLOR_SCALE: ColorScale = { min: -2, center: 0, max: 2, lowColor: "#2166ac", midColor: "#f7f7f7", highColor: "#b2182b" };
+
+function hexToRgb(hex: string): [number, number, number] {
+  const h = hex.replace("#", "");
+  const full = h.length === 3 ? h.split("").map((c) => c + c).join("") : h.padEnd(6, "0");
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+}
+
+function mix(a: string, b: string, t: number) {
+  const [r1, g1, b1] = hexToRgb(a);
+  const [r2, g2, b2] = hexToRgb(b);
+  const f = (x: number, y: number) => Math.round(x + (y - x) * t);
+  return `rgb(${f(r1, r2)},${f(g1, g2)},${f(b1, b2)})`;
+}
+
+// Diverging color for `v`: lowColor at min, midColor at center, highColor at max (clamped).
+export function scaleColor(v: number, s: ColorScale): string {
+  if (v <= s.center) {
+    const span = s.center - s.min;
+    return mix(s.midColor, s.lowColor, span > 0 ? Math.min(1, (s.center - v) / span) : 1);
+  }
+  const span = s.max - s.center;
+  return mix(s.midColor, s.highColor, span > 0 ? Math.min(1, (v - s.center) / span) : 1);
+}
+
+// SVG of equal vertical stripes (KEGG Mapper style) for a multi-gene box; null slices keep `fallback`.
+export function stripeSvg(colors: Array<string | null>, fallback: string): string {
+  const n = Math.max(1, colors.length);
+  const rects = colors.map((c, i) => `<rect x="${(i * 100) / n}" y="0" width="${100 / n}" height="100" fill="${c || fallback}"/>`).join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 100 100" preserveAspectRatio="none">${rects}</svg>`;
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,60 @@
+// lib/provenance.ts
+// The databases behind an interaction, from the raw allDBs string ("BioGRID; IntAct",
+// "biogrid,string", "none" for new predictions). Databases are matched case-insensitively by
+// key; the label keeps the spelling first seen in the dataset.
+
+export type DatabaseCount = { key: string; label: string; edges: number; color: string };
+
+// Which databases an edge must (required) and must not (excluded) be supported by, as keys
+export type ProvenanceRule = { required: string[]; excluded: string[] };
+
+// allDBs value of interactions found in no database
+export const NOVEL_KEY = "none";
+export const NOVEL_COLOR = "#3b82f6";
+// Edges supported by more than one database
+export const MULTI_DB_COLOR = "#a855f7";
+// Databases past the palette
+const OTHER_DB_COLOR = "#9ca3af";
+// Most frequent databases first; no blue or purple, those mean new and multiple
+const DB_PALETTE = ["#f97316", "#10b981", "#eab308", "#ec4899", "#14b8a6", "#ef4444", "#84cc16", "#f59e0b", "#06b6d4", "#d946ef"];
+
+export const splitDatabases = (allDBs: string | undefined) =>
+  (allDBs || "").split(/[;,|]/).map((t) => t.trim()).filter(Boolean);
+
+export const databaseKeys = (allDBs: string | undefined) => splitDatabases(allDBs).map((t) => t.toLowerCase());
+
+// Every database in the edges, most frequent first, each with its color. "none" is listed too,
+// as the new-prediction pseudo-database.
+export function countDatabases(edges: Iterable<{ allDBs?: string }>): DatabaseCount[] {
+  const counts = new Map<string, { label: string; edges: number }>();
+  for (const e of edges) {
+    // An edge listing a database twice still counts once for it
+    const seen = new Set<string>();
+    for (const label of splitDatabases(e.allDBs)) {
+      const key = label.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key);
+      if (entry) entry.edges++;
+      else counts.set(key, { label: key === NOVEL_KEY ? "New (no database)" : label, edges: 1 });
+    }
+  }
+  let rank = 0;
+  return Array.from(counts, ([key, v]) => ({ key, ...v }))
+    .sort((a, b) => b.edges - a.edges || a.key.localeCompare(b.key))
+    .map((d) => ({ ...d, color: d.key === NOVEL_KEY ? NOVEL_COLOR : DB_PALETTE[rank++] || OTHER_DB_COLOR }));
+}
+
+export function matchesProvenance(allDBs: string | undefined, rule: ProvenanceRule): boolean {
+  const keys = new Set(databaseKeys(allDBs));
+  return rule.required.every((k) => keys.has(k)) && !rule.excluded.some((k) => keys.has(k));
+}
+
+// Edge color by provenance category: its database's color, or one color for any edge backed by
+// several databases. Undefined for edges without provenance.
+export function provenanceColor(allDBs: string | undefined, colors: Record<string, string>): string | undefined {
+  const keys = Array.from(new Set(databaseKeys(allDBs)));
+  if (!keys.length) return undefined;
+  if (keys.length > 1) return MULTI_DB_COLOR;
+  return colors[keys[0]] || OTHER_DB_COLOR;
+}
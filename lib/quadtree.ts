@@ -0,0 +1,82 @@
+// lib/quadtree.ts
+// Point quadtree with per-cell representatives for level-of-detail queries. Every cell keeps
+// the heaviest few points of its subtree (by degree, in the viewer), so a query at a coarse
+// resolution can stop at cells smaller than the resolution and return those instead of every
+// point underneath. Pure data structure, no graph or I/O knowledge.
+
+export type QuadPoint = { x: number; y: number; weight: number; index: number };
+
+export type BBox = { minX: number; minY: number; maxX: number; maxY: number };
+
+export type QuadCell = {
+  bounds: BBox;
+  // Heaviest points of the subtree, heaviest first
+  top: QuadPoint[];
+  count: number;
+  points?: QuadPoint[];
+  children?: QuadCell[];
+};
+
+const BUCKET_SIZE = 64;
+const MAX_DEPTH = 20;
+const REPRESENTATIVES = 8;
+
+const byWeight = (a: QuadPoint, b: QuadPoint) => b.weight - a.weight;
+
+export function boundsOf(points: Array<{ x: number; y: number }>): BBox {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  }
+  if (minX === Infinity) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return { minX, minY, maxX, maxY };
+}
+
+const intersects = (a: BBox, b: BBox) => a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+const contains = (b: BBox, p: QuadPoint) => p.x >= b.minX && p.x <= b.maxX && p.y >= b.minY && p.y <= b.maxY;
+
+function buildCell(points: QuadPoint[], bounds: BBox, depth: number): QuadCell {
+  const top = points.length <= REPRESENTATIVES ? [...points].sort(byWeight) : [...points].sort(byWeight).slice(0, REPRESENTATIVES);
+  if (points.length <= BUCKET_SIZE || depth >= MAX_DEPTH) return { bounds, top, count: points.length, points };
+  const midX = (bounds.minX + bounds.maxX) / 2;
+  const midY = (bounds.minY + bounds.maxY) / 2;
+  const quads: QuadPoint[][] = [[], [], [], []];
+  for (const p of points) quads[(p.x > midX ? 1 : 0) + (p.y > midY ? 2 : 0)].push(p);
+  const boxes: BBox[] = [
+    { minX: bounds.minX, minY: bounds.minY, maxX: midX, maxY: midY },
+    { minX: midX, minY: bounds.minY, maxX: bounds.maxX, maxY: midY },
+    { minX: bounds.minX, minY: midY, maxX: midX, maxY: bounds.maxY },
+    { minX: midX, minY: midY, maxX: bounds.maxX, maxY: bounds.maxY },
+  ];
+  const children = quads.map((q, i) => buildCell(q, boxes[i], depth + 1)).filter((c) => c.count > 0);
+  return { bounds, top, count: points.length, children };
+}
+
+export function buildQuadTree(points: QuadPoint[]): QuadCell {
+  return buildCell(points, boundsOf(points), 0);
+}
+
+// Points inside `bbox`. Cells narrower than `resolution` (in the points' units) contribute only
+// their representatives, so the result size follows the viewport size rather than the density.
+export function queryQuadTree(root: QuadCell, bbox: BBox, resolution = 0): QuadPoint[] {
+  const out: QuadPoint[] = [];
+  const visit = (cell: QuadCell) => {
+    if (!intersects(cell.bounds, bbox)) return;
+    const size = Math.max(cell.bounds.maxX - cell.bounds.minX, cell.bounds.maxY - cell.bounds.minY);
+    if (cell.points) {
+      const pts = resolution > 0 && size < resolution && cell.points.length > REPRESENTATIVES ? cell.top : cell.points;
+      for (const p of pts) if (contains(bbox, p)) out.push(p);
+      return;
+    }
+    if (resolution > 0 && size < resolution) {
+      for (const p of cell.top) if (contains(bbox, p)) out.push(p);
+      return;
+    }
+    for (const child of cell.children || []) visit(child);
+  };
+  visit(root);
+  return out;
+}
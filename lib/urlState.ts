@@ -0,0 +1,39 @@
+// lib/urlState.ts
+// Keep shareable view state in the query string. Writes use history.replaceState so
+// sliders and camera moves do not pile up browser history entries or trigger navigation.
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export function readQuery(): URLSearchParams {
+  if (typeof window === "undefined") return new URLSearchParams();
+  return new URLSearchParams(window.location.search);
+}
+
+// Merge `values` into the current query. null/undefined/""/false remove the key; true is "1".
+export function writeQuery(values: Record<string, QueryValue>) {
+  if (typeof window === "undefined") return;
+  const url = new URL(window.location.href);
+  for (const [k, v] of Object.entries(values)) {
+    if (v === null || v === undefined || v === "" || v === false) url.searchParams.delete(k);
+    else url.searchParams.set(k, v === true ? "1" : String(v));
+  }
+  const next = `${url.pathname}${url.search}${url.hash}`;
+  if (next !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, "", next);
+  }
+}
+
+export const queryNumber = (q: URLSearchParams, key: string): number | undefined => {
+  const raw = q.get(key);
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const queryFlag = (q: URLSearchParams, key: string): boolean | undefined => {
+  const raw = q.get(key);
+  return raw === null ? undefined : raw === "1" || raw === "true";
+};
+
+export const queryList = (q: URLSearchParams, key: string): string[] =>
+  (q.get(key) || "").split(",").map((s) => s.trim()).filter(Boolean);
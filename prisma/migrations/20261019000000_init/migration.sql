@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "Graph" (
+    "id" SERIAL NOT NULL,
+    "protein1" TEXT NOT NULL,
+    "protein2" TEXT NOT NULL,
+    "name1" TEXT,
+    "name2" TEXT,
+    "allDBs" TEXT NOT NULL DEFAULT '',
+    "afmprob" DOUBLE PRECISION,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+
+    CONSTRAINT "Graph_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GraphNode" (
+    "id" TEXT NOT NULL,
+    "label" TEXT,
+    "x" DOUBLE PRECISION NOT NULL,
+    "y" DOUBLE PRECISION NOT NULL,
+    "size" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "degree" INTEGER NOT NULL DEFAULT 0,
+    "community" INTEGER,
+
+    CONSTRAINT "GraphNode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Graph_protein1_idx" ON "Graph"("protein1");
+
+-- CreateIndex
+CREATE INDEX "Graph_protein2_idx" ON "Graph"("protein2");
+
+-- CreateIndex
+CREATE INDEX "Graph_afmprob_idx" ON "Graph"("afmprob");
+
+-- CreateIndex
+CREATE INDEX "GraphNode_x_y_idx" ON "GraphNode"("x", "y");
@@ -0,0 +1,140 @@
+-- CreateTable
+CREATE TABLE "Protein" (
+    "id" TEXT NOT NULL,
+    "label" TEXT,
+    "x" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "y" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "size" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "degree" INTEGER NOT NULL DEFAULT 0,
+    "community" INTEGER,
+
+    CONSTRAINT "Protein_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Interaction" (
+    "id" SERIAL NOT NULL,
+    "proteinAId" TEXT NOT NULL,
+    "proteinBId" TEXT NOT NULL,
+    "allDBs" TEXT NOT NULL DEFAULT '',
+    "afmprob" DOUBLE PRECISION,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+
+    CONSTRAINT "Interaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Provenance" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "Provenance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InteractionProvenance" (
+    "interactionId" INTEGER NOT NULL,
+    "provenanceId" INTEGER NOT NULL,
+
+    CONSTRAINT "InteractionProvenance_pkey" PRIMARY KEY ("interactionId","provenanceId")
+);
+
+-- CreateTable
+CREATE TABLE "Locality" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "group" TEXT NOT NULL DEFAULT 'OTHER',
+
+    CONSTRAINT "Locality_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProteinLocality" (
+    "proteinId" TEXT NOT NULL,
+    "localityId" INTEGER NOT NULL,
+
+    CONSTRAINT "ProteinLocality_pkey" PRIMARY KEY ("proteinId","localityId")
+);
+
+-- CreateIndex
+CREATE INDEX "Protein_label_idx" ON "Protein"("label");
+
+-- CreateIndex
+CREATE INDEX "Protein_x_y_idx" ON "Protein"("x", "y");
+
+-- CreateIndex
+CREATE INDEX "Interaction_proteinBId_idx" ON "Interaction"("proteinBId");
+
+-- CreateIndex
+CREATE INDEX "Interaction_afmprob_idx" ON "Interaction"("afmprob");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Interaction_proteinAId_proteinBId_key" ON "Interaction"("proteinAId", "proteinBId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Provenance_name_key" ON "Provenance"("name");
+
+-- CreateIndex
+CREATE INDEX "InteractionProvenance_provenanceId_idx" ON "InteractionProvenance"("provenanceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Locality_name_key" ON "Locality"("name");
+
+-- CreateIndex
+CREATE INDEX "ProteinLocality_localityId_idx" ON "ProteinLocality"("localityId");
+
+-- AddForeignKey
+ALTER TABLE "Interaction" ADD CONSTRAINT "Interaction_proteinAId_fkey" FOREIGN KEY ("proteinAId") REFERENCES "Protein"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Interaction" ADD CONSTRAINT "Interaction_proteinBId_fkey" FOREIGN KEY ("proteinBId") REFERENCES "Protein"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InteractionProvenance" ADD CONSTRAINT "InteractionProvenance_interactionId_fkey" FOREIGN KEY ("interactionId") REFERENCES "Interaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InteractionProvenance" ADD CONSTRAINT "InteractionProvenance_provenanceId_fkey" FOREIGN KEY ("provenanceId") REFERENCES "Provenance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProteinLocality" ADD CONSTRAINT "ProteinLocality_proteinId_fkey" FOREIGN KEY ("proteinId") REFERENCES "Protein"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProteinLocality" ADD CONSTRAINT "ProteinLocality_localityId_fkey" FOREIGN KEY ("localityId") REFERENCES "Locality"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry existing Graph/GraphNode rows over before dropping them
+INSERT INTO "Protein" ("id", "label", "x", "y", "size", "degree", "community")
+SELECT "id", "label", "x", "y", "size", "degree", "community" FROM "GraphNode";
+
+INSERT INTO "Protein" ("id", "label")
+SELECT p."id", MIN(p."name")
+FROM (
+    SELECT "protein1" AS "id", "name1" AS "name" FROM "Graph"
+    UNION ALL
+    SELECT "protein2" AS "id", "name2" AS "name" FROM "Graph"
+) p
+GROUP BY p."id"
+ON CONFLICT ("id") DO NOTHING;
+
+-- Order endpoints bytewise (COLLATE "C"), like JavaScript's `<` on the ids, not by the database collation
+INSERT INTO "Interaction" ("proteinAId", "proteinBId", "allDBs", "afmprob", "weight")
+SELECT LEAST("protein1" COLLATE "C", "protein2" COLLATE "C"), GREATEST("protein1" COLLATE "C", "protein2" COLLATE "C"), "allDBs", "afmprob", "weight"
+FROM "Graph"
+ON CONFLICT ("proteinAId", "proteinBId") DO NOTHING;
+
+INSERT INTO "Provenance" ("name")
+SELECT DISTINCT TRIM(db."name")
+FROM "Interaction" i
+CROSS JOIN LATERAL regexp_split_to_table(i."allDBs", '[,;|]') AS db("name")
+WHERE TRIM(db."name") <> '' AND LOWER(TRIM(db."name")) <> 'none';
+
+INSERT INTO "InteractionProvenance" ("interactionId", "provenanceId")
+SELECT DISTINCT i."id", p."id"
+FROM "Interaction" i
+CROSS JOIN LATERAL regexp_split_to_table(i."allDBs", '[,;|]') AS db("name")
+JOIN "Provenance" p ON p."name" = TRIM(db."name");
+
+-- DropTable
+DROP TABLE "Graph";
+
+-- DropTable
+DROP TABLE "GraphNode";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Protein" ADD COLUMN     "organism" TEXT NOT NULL DEFAULT 'hsa';
+
+-- CreateIndex
+CREATE INDEX "Protein_organism_label_idx" ON "Protein"("organism", "label");
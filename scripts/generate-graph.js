@@ -4,7 +4,8 @@
 // - Creates a synthetic graph (default: Erdos-Renyi) of configurable size
 // - Computes Louvain communities
 // - Runs ForceAtlas2 layout to compute x,y positions (precomputed off the UI thread)
-// - Exports nodes, edges, clusters (meta-nodes), and an adjacency map to public/graph.json
+// - Exports nodes, edges, clusters (meta-nodes), and an adjacency map to public/graph.json,
+//   plus the compact binary public/graph.bin (scripts/graph-binary.js)
 
 /* eslint-disable no-console */
 
@@ -14,6 +15,7 @@ const {UndirectedGraph} = require('graphology');
 const random = require('graphology-generators/random');
 const fa2 = require('graphology-layout-forceatlas2');
 const louvain = require('graphology-communities-louvain');
+const {writeGraphBinary} = require('./graph-binary');
 
 function parseArgs(argv) {
   const args = {};
@@ -153,8 +155,9 @@ function main() {
   ensureDirSync(outDir);
   const outPath = path.join(outDir, 'graph.json');
   fs.writeFileSync(outPath, JSON.stringify(out));
+  const binPath = writeGraphBinary(outPath, out);
   const ms = Date.now() - t0;
-  console.log(`Wrote ${outPath} in ${ms}ms`);
+  console.log(`Wrote ${outPath} and ${path.basename(binPath)} in ${ms}ms`);
 }
 
 if (require.main === module) main();
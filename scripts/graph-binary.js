@@ -0,0 +1,118 @@
+/*
+Compact binary companion to graph.json (graph.bin next to it), decoded by lib/graphBinary.ts.
+Edges are typed arrays of node indices instead of objects, provenance strings are
+dictionary-coded and the adjacency map is left out (the viewer rebuilds it from the edges).
+
+Layout, little-endian:
+  "PPIG"          magic
+  u32             format version (2; version 1 stored edgeNum as Float32)
+  then sections in this order, each a u32 byte length, the payload and zero padding to a
+  multiple of 4 bytes (so every payload can be viewed as a typed array in place):
+    header     UTF-8 JSON {meta, directed, nodeCount, edgeCount, clusters, provenance}
+    ids        UTF-8 node ids, one per line
+    labels     UTF-8 node labels, one per line (empty: same as the id)
+    nodePos    Float32 [x, y, size] per node
+    nodeInt    Int32 [degree, community (-1: none)] per node
+    nodeFlags  Uint8 per node, bit 0: has an allDBs "none" edge
+    edges      Uint32 [source index, target index] per edge
+    edgeNum    Float64 [weight, afmprob (NaN: none)] per edge, full precision so AFMprob
+               cutoffs give the same result as graph.json (Float32 turns 0.9 into 0.8999999761…)
+    edgeProv   Uint16 index into header.provenance (the distinct allDBs values) per edge
+*/
+
+const fs = require('fs');
+
+const MAGIC = 'PPIG';
+const VERSION = 2;
+
+const oneLine = (s) => String(s ?? '').replace(/[\r\n]+/g, ' ');
+
+// `graph` is the object written to graph.json: {meta, nodes, edges, clusters}
+function encodeGraph(graph, {directed = false} = {}) {
+  const nodes = graph.nodes || [];
+  const edges = graph.edges || [];
+  const index = new Map(nodes.map((n, i) => [String(n.id), i]));
+
+  const provenance = [];
+  const provIndex = new Map();
+  const provCode = (v) => {
+    const key = String(v || '');
+    if (!provIndex.has(key)) {
+      if (provenance.length >= 0xffff) throw new Error('More than 65535 distinct allDBs values');
+      provIndex.set(key, provenance.length);
+      provenance.push(key);
+    }
+    return provIndex.get(key);
+  };
+
+  const nodePos = new Float32Array(nodes.length * 3);
+  const nodeInt = new Int32Array(nodes.length * 2);
+  const nodeFlags = new Uint8Array(nodes.length);
+  nodes.forEach((n, i) => {
+    nodePos[i * 3] = n.x;
+    nodePos[i * 3 + 1] = n.y;
+    nodePos[i * 3 + 2] = n.size ?? 1;
+    nodeInt[i * 2] = n.degree ?? 0;
+    nodeInt[i * 2 + 1] = typeof n.community === 'number' ? n.community : -1;
+    nodeFlags[i] = n.hasAllDBsNone ? 1 : 0;
+  });
+
+  const kept = edges.filter((e) => index.has(String(e.source)) && index.has(String(e.target)));
+  const edgeIdx = new Uint32Array(kept.length * 2);
+  const edgeNum = new Float64Array(kept.length * 2);
+  const edgeProv = new Uint16Array(kept.length);
+  kept.forEach((e, i) => {
+    edgeIdx[i * 2] = index.get(String(e.source));
+    edgeIdx[i * 2 + 1] = index.get(String(e.target));
+    edgeNum[i * 2] = e.weight ?? 1;
+    edgeNum[i * 2 + 1] = typeof e.afmprob === 'number' ? e.afmprob : NaN;
+    edgeProv[i] = provCode(e.allDBs);
+  });
+
+  const header = {
+    meta: graph.meta || {},
+    directed: !!directed,
+    nodeCount: nodes.length,
+    edgeCount: kept.length,
+    clusters: graph.clusters || [],
+    provenance,
+  };
+  const sections = [
+    Buffer.from(JSON.stringify(header), 'utf8'),
+    Buffer.from(nodes.map((n) => oneLine(n.id)).join('\n'), 'utf8'),
+    Buffer.from(nodes.map((n) => (n.label && n.label !== n.id ? oneLine(n.label) : '')).join('\n'), 'utf8'),
+    Buffer.from(nodePos.buffer),
+    Buffer.from(nodeInt.buffer),
+    Buffer.from(nodeFlags.buffer),
+    Buffer.from(edgeIdx.buffer),
+    Buffer.from(edgeNum.buffer),
+    Buffer.from(edgeProv.buffer),
+  ];
+
+  const parts = [Buffer.from(MAGIC, 'ascii'), u32(VERSION)];
+  for (const payload of sections) {
+    parts.push(u32(payload.length), payload);
+    const pad = (4 - (payload.length % 4)) % 4;
+    if (pad) parts.push(Buffer.alloc(pad));
+  }
+  return Buffer.concat(parts);
+}
+
+function u32(v) {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(v, 0);
+  return b;
+}
+
+// graph.json -> graph.bin, graph_locality.json -> graph_locality.bin
+function binaryPathFor(jsonPath) {
+  return jsonPath.replace(/\.json$/, '') + '.bin';
+}
+
+function writeGraphBinary(jsonPath, graph, options) {
+  const file = binaryPathFor(jsonPath);
+  fs.writeFileSync(file, encodeGraph(graph, options));
+  return file;
+}
+
+module.exports = {encodeGraph, binaryPathFor, writeGraphBinary};
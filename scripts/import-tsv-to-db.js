@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+/*
+Import a prediction TSV into Postgres (Protein, Interaction, Provenance, Locality).
+
+Reads the same columns as tsv-to-graph.js and runs the same ForceAtlas2 + Louvain step,
+so layout coordinates and communities in the DB match a freshly generated graph.json.
+The import replaces the existing PPI rows of its organism; other organisms are left alone.
+It runs in one transaction, so a failure leaves the organism's previous rows in place.
+Protein ids are unique across organisms; an import that reuses another organism's id is rejected.
+
+Usage:
+  DATABASE_URL=postgresql://... node scripts/import-tsv-to-db.js --input /path/final_predictions_80.tsv
+
+Options:
+  --input    Absolute path to TSV (required)
+  --source/--target/--name1/--name2/--allDBs/--afmprob/--locality1/--locality2/--weight
+             Column names, same defaults as tsv-to-graph.js
+  --organism KEGG organism code of the dataset (default: hsa)
+  --limit    Process at most N rows (for testing)
+  --minProb  Drop rows whose AFM probability is below this value
+  --batch    Rows per insert statement (default: 5000)
+  --timeout  Seconds the whole import may take before it is rolled back (default: 1800)
+  --dry-run  Parse and lay out, but do not touch the database
+*/
+
+const fs = require('fs');
+const path = require('path');
+const {parseArgs, columnOptions, readTsv, buildLayoutGraph, groupDefs, groupIndexOf} = require('./tsv-to-graph');
+
+// Split a raw allDBs value ("BioGRID;STRING", "intact|mint") into database names.
+// "none" marks a novel interaction and has no provenance rows.
+function splitDBs(raw) {
+  return String(raw || '')
+    .split(/[,;|]/g)
+    .map((s) => s.trim())
+    .filter((s) => s && s.toLowerCase() !== 'none');
+}
+
+function chunks(arr, size) {
+  const out = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+async function run() {
+  const args = parseArgs(process.argv);
+  const input = args.input || args.i;
+  if (!input) {
+    console.error('Missing --input /absolute/path/to/file.tsv');
+    process.exit(1);
+  }
+  const inputPath = path.resolve(String(input));
+  if (!fs.existsSync(inputPath)) {
+    console.error('Input not found:', inputPath);
+    process.exit(1);
+  }
+  const limit = args.limit ? Number(args.limit) : Infinity;
+  const batchSize = Math.max(100, Number(args.batch || 5000));
+  const timeoutMs = Math.max(1, Number(args.timeout || 1800)) * 1000;
+  const dryRun = !!args['dry-run'];
+  const organism = String(args.organism || 'hsa').toLowerCase();
+  if (!/^[a-z]{3,4}$/.test(organism)) {
+    console.error('Invalid --organism (expected a KEGG organism code, e.g. hsa, mmu, sce)');
+    process.exit(1);
+  }
+
+  const minProb = args.minProb !== undefined ? Number(args.minProb) : undefined;
+  if (minProb !== undefined && Number.isNaN(minProb)) {
+    console.error('--minProb must be a number');
+    process.exit(1);
+  }
+  const parsed = await readTsv(inputPath, columnOptions(args), limit, {minProb});
+  console.log(`Parsed ${parsed.nodeSet.size} proteins and ${parsed.edgesRaw.length} rows`);
+  const graph = buildLayoutGraph(parsed);
+
+  const proteins = [];
+  graph.forEachNode((id, attrs) => {
+    const degree = graph.degree(id);
+    proteins.push({
+      id: String(id),
+      label: parsed.idToLabel[id] ? String(parsed.idToLabel[id]) : null,
+      organism,
+      x: attrs.x,
+      y: attrs.y,
+      size: Math.max(1, Math.sqrt(degree) * 1.2),
+      degree,
+      community: typeof attrs.community === 'number' ? attrs.community : null,
+    });
+  });
+
+  const interactions = [];
+  graph.forEachEdge((e, attrs, src, tgt) => {
+    const [a, b] = src < tgt ? [src, tgt] : [tgt, src];
+    interactions.push({
+      proteinAId: String(a),
+      proteinBId: String(b),
+      allDBs: attrs.allDBs || '',
+      afmprob: typeof attrs.afmprob === 'number' ? attrs.afmprob : null,
+      weight: typeof attrs.weight === 'number' && !Number.isNaN(attrs.weight) ? attrs.weight : 1,
+    });
+  });
+
+  const provenanceNames = new Set();
+  for (const it of interactions) for (const db of splitDBs(it.allDBs)) provenanceNames.add(db);
+  const localityNames = new Set();
+  for (const id of Object.keys(parsed.proteinToLocs)) for (const loc of parsed.proteinToLocs[id]) localityNames.add(loc);
+
+  console.log(`Prepared ${proteins.length} ${organism} proteins, ${interactions.length} interactions, ${provenanceNames.size} databases, ${localityNames.size} localities`);
+  if (dryRun) return;
+
+  const {PrismaClient} = require('../src/generated/prisma');
+  const prisma = new PrismaClient();
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Interactions and links cascade from Protein. Provenance and Locality names are shared
+      // across organisms, so they are only added to, never cleared.
+      // Protein ids are global keys: an id another organism already holds would be overwritten
+      const taken = [];
+      for (const batch of chunks(proteins.map((p) => p.id), 10000)) {
+        const rows = await tx.protein.findMany({where: {id: {in: batch}, organism: {not: organism}}, select: {id: true, organism: true}});
+        taken.push(...rows);
+      }
+      if (taken.length) {
+        const sample = taken.slice(0, 5).map((r) => `${r.id} (${r.organism})`).join(', ');
+        throw new Error(`${taken.length} protein ids already belong to another organism, e.g. ${sample}; nothing was imported`);
+      }
+      await tx.protein.deleteMany({where: {organism}});
+
+      for (const batch of chunks(proteins, batchSize)) {
+        await tx.protein.createMany({data: batch});
+      }
+      console.log(`Inserted ${proteins.length} proteins`);
+
+      await tx.provenance.createMany({
+        data: Array.from(provenanceNames).map((name) => ({name})),
+        skipDuplicates: true,
+      });
+      const provenanceRows = await tx.provenance.findMany({where: {name: {in: Array.from(provenanceNames)}}});
+      const provenanceId = new Map(provenanceRows.map((p) => [p.name, p.id]));
+
+      let linked = 0;
+      for (const batch of chunks(interactions, batchSize)) {
+        const rows = await tx.interaction.createManyAndReturn({
+          data: batch,
+          select: {id: true, allDBs: true},
+        });
+        const links = [];
+        for (const r of rows) {
+          for (const db of new Set(splitDBs(r.allDBs))) links.push({interactionId: r.id, provenanceId: provenanceId.get(db)});
+        }
+        if (links.length) await tx.interactionProvenance.createMany({data: links});
+        linked += links.length;
+      }
+      console.log(`Inserted ${interactions.length} interactions (${linked} provenance links)`);
+
+      await tx.locality.createMany({
+        data: Array.from(localityNames).map((name) => ({name, group: groupDefs[groupIndexOf(name)].key})),
+        skipDuplicates: true,
+      });
+      const localityRows = await tx.locality.findMany({where: {name: {in: Array.from(localityNames)}}});
+      const localityId = new Map(localityRows.map((l) => [l.name, l.id]));
+      const proteinLocs = [];
+      for (const id of Object.keys(parsed.proteinToLocs)) {
+        for (const loc of parsed.proteinToLocs[id]) proteinLocs.push({proteinId: id, localityId: localityId.get(loc)});
+      }
+      for (const batch of chunks(proteinLocs, batchSize)) {
+        await tx.proteinLocality.createMany({data: batch});
+      }
+      console.log(`Inserted ${localityRows.length} localities (${proteinLocs.length} protein links)`);
+    }, {timeout: timeoutMs, maxWait: 60000});
+    console.log(`Committed the ${organism} import`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+run().catch((err) => { console.error(err); process.exit(1); });
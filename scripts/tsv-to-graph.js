@@ -5,15 +5,39 @@ Convert a TSV file to graph.json for the viewer.
 Usage examples:
   node scripts/tsv-to-graph.js --input /path/final_predictions_80.tsv \
     --source protein1 --target protein2 --output public/graph.json
+  Other organisms are read from public/graph_<org>.json (e.g. --output public/graph_mmu.json).
+
+  Register a run in the dataset registry instead of overwriting public/:
+  node scripts/tsv-to-graph.js --input /path/final_predictions_80.tsv \
+    --dataset afm-v2-080 --name "AFM v2, prob >= 0.8" --minProb 0.8
 
 Options:
   --input    Absolute path to TSV (required)
-  --output   Output JSON path (default: public/graph.json)
+  --output   Output JSON path (default: public/graph.json). A compact binary copy is written
+             next to every JSON file (graph.bin, see scripts/graph-binary.js)
   --source   Source column name (default: protein1)
   --target   Target column name (default: protein2)
   --weight   Optional weight column name (numeric)
+  --name1/--name2          Display name columns (default: name1/name2)
+  --allDBs   Provenance column (default: allDBs)
+  --afmprob  AFM probability column (default: AFMprob)
+  --locality1/--locality2  Locality columns (default: locality1/locality2)
+             An optional column given as "none" is treated as absent instead of falling back
+             to its default header
   --directed Treat as directed (default: false)
   --limit    Process at most N rows (for testing)
+  --minProb  Drop rows whose AFM probability is below this value
+  --progress Print "PROGRESS <stage> <fraction>" lines (stages: read, layout, communities,
+             write, locality) for callers that track the run, e.g. lib/jobs.ts
+
+Dataset registry (see lib/datasets.ts):
+  --dataset     Dataset id; writes graph.json, graph_locality.json and dataset.json to
+                $DATASETS_DIR/<id> (default: data/datasets/<id>) and ignores --output
+  --name        Display name (default: the dataset id)
+  --description Free-text description
+  --organism    KEGG organism code (default: hsa)
+  --inputName   Source recorded in dataset.json (default: the --input path), e.g. the
+                original name of an uploaded file
 */
 
 const fs = require('fs');
@@ -22,6 +46,7 @@ const readline = require('readline');
 const {UndirectedGraph, DirectedGraph} = require('graphology');
 const fa2 = require('graphology-layout-forceatlas2');
 const louvain = require('graphology-communities-louvain');
+const {writeGraphBinary} = require('./graph-binary');
 
 function parseArgs(argv) {
   const args = {};
@@ -31,8 +56,8 @@ function parseArgs(argv) {
     if (!tok.startsWith('--')) continue;
     const raw = tok.replace(/^--/, '');
     if (raw.includes('=')) {
-      const [k, v] = raw.split('=');
-      args[k] = v;
+      const eq = raw.indexOf('=');
+      args[raw.slice(0, eq)] = raw.slice(eq + 1);
     } else {
       const k = raw;
       const next = parts[i + 1];
@@ -47,37 +72,82 @@ function ensureDirSync(dir) {
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, {recursive: true});
 }
 
-async function run() {
-  const args = parseArgs(process.argv);
-  const input = args.input || args.i;
-  if (!input) {
-    console.error('Missing --input /absolute/path/to/file.tsv');
-    process.exit(1);
-  }
-  const inputPath = path.resolve(String(input));
-  if (!fs.existsSync(inputPath)) {
-    console.error('Input not found:', inputPath);
-    process.exit(1);
-  }
-  const outputPath = path.resolve(String(args.output || 'public/graph.json'));
-  const sourceCol = String(args.source || 'protein1');
-  const targetCol = String(args.target || 'protein2');
-  const locality1Col = String(args.locality1 || 'locality1');
-  const locality2Col = String(args.locality2 || 'locality2');
-  const outputLocalityPath = path.resolve(String(args.localityOutput || path.join(path.dirname(outputPath), path.basename(outputPath).replace(/\.json$/, '_locality.json'))));
-  // Optional display name columns corresponding to source/target. Defaults try common names.
-  const name1Col = String(args.name1 || 'name1');
-  const name2Col = String(args.name2 || 'name2');
-  const weightCol = args.weight ? String(args.weight) : null;
-  // Optional provenance column name; defaults to 'allDBs'
-  const allDBsCol = String(args.allDBs || 'allDBs');
-  const directed = !!args.directed;
-  // Default AFM probability column to 'AFMprob' if not provided
-  const afmprobCol = String(args.afmprob || 'AFMprob');
-  const limit = args.limit ? Number(args.limit) : Infinity;
+// Group similar localities by explicit ontology from user
+const groupDefs = [
+  {key: 'NUCLEUS', members: [
+    'Nucleus','Chromosome','Spliceosome','Centromere','Kinetochore','Nucleosome core','Telomere','Nuclear pore complex','DNA-directed RNA polymerase','Primosome'
+  ]},
+  {key: 'CYTOPLASM', members: [
+    'Cytoplasm','Cytoskeleton','Endoplasmic reticulum','Golgi apparatus','Cytoplasmic vesicle','Endosome','Lysosome','Microtubule','Mitochondrion outer membrane','Microsome','Intermediate filament','Peroxisome','Proteasome','Proteaosome','Lipid droplet','Sarcoplasmic reticulum','Signalosome','Inflammasome','Signal recognition particle','Thick filament','Vacuole','Viral envelope protein','Target membrane','Membrane'
+  ]},
+  {key: 'MITOCHONDRIA', members: [
+    'Mitochondrion','Mitochondrion inner membrane','Mitochondrion nuclei','Mitochondrion nucleoid'
+  ]},
+  {key: 'EXTRACELLULAR', members: [
+    'Cell membrane','Cell projection','Synapse','Cell junction','Cilium','Extracellular matrix','Immunoglobulin','Postsynaptic cell membrane','Flagellum','T cell receptor','Keratin','Tight junction','Synaptosome','Coated pit','Basement membrane','Dynein','MHC II','Gap junction','HDL','Exosome','MHC I','LDL','VLDL','Membrane attack complex','Surface film','Chylomicron','Virion','Target cell membrane'
+  ]},
+  {key: 'OTHER', members: []},
+];
+const memberToGroup = Object.create(null);
+for (let gi = 0; gi < groupDefs.length; gi++) {
+  for (const m of groupDefs[gi].members) memberToGroup[m.toLowerCase()] = gi;
+}
+function groupIndexOf(loc) {
+  const k = String(loc || '').toLowerCase();
+  return (k in memberToGroup) ? memberToGroup[k] : (groupDefs.length - 1);
+}
+
+// Column names default to the prediction table headers; matching is fuzzy (case and
+// punctuation insensitive, substring allowed) so e.g. "AFM_prob" still matches AFMprob.
+// "none" switches an optional column off (null) rather than using its default.
+function columnOptions(args) {
+  const optional = (v, fallback) => (String(v).toLowerCase() === 'none' ? null : v ? String(v) : fallback);
+  return {
+    source: String(args.source || 'protein1'),
+    target: String(args.target || 'protein2'),
+    name1: optional(args.name1, 'name1'),
+    name2: optional(args.name2, 'name2'),
+    weight: optional(args.weight, null),
+    allDBs: optional(args.allDBs, 'allDBs'),
+    afmprob: optional(args.afmprob, 'AFMprob'),
+    locality1: optional(args.locality1, 'locality1'),
+    locality2: optional(args.locality2, 'locality2'),
+  };
+}
+
+// `--progress` output; one line per call, throttled per stage to whole percents
+function progressReporter(enabled) {
+  const last = Object.create(null);
+  return (stage, fraction) => {
+    if (!enabled) return;
+    const pct = Math.max(0, Math.min(100, Math.floor(fraction * 100)));
+    if (last[stage] === pct) return;
+    last[stage] = pct;
+    console.log(`PROGRESS ${stage} ${(pct / 100).toFixed(2)}`);
+  };
+}
+
+// Stream the TSV and collect edges plus per-protein labels, provenance and localities.
+// `minProb` drops rows with an AFM probability below it (rows without one are kept).
+// `onProgress(fraction)` is called with the share of the file read so far.
+async function readTsv(inputPath, columns, limit = Infinity, {minProb, onProgress} = {}) {
+  const sourceCol = columns.source;
+  const targetCol = columns.target;
+  const locality1Col = columns.locality1;
+  const locality2Col = columns.locality2;
+  const name1Col = columns.name1;
+  const name2Col = columns.name2;
+  const weightCol = columns.weight;
+  const allDBsCol = columns.allDBs;
+  const afmprobCol = columns.afmprob;
 
+  const input = fs.createReadStream(inputPath);
+  if (onProgress) {
+    const total = fs.statSync(inputPath).size || 1;
+    input.on('data', () => onProgress(input.bytesRead / total));
+  }
   const rl = readline.createInterface({
-    input: fs.createReadStream(inputPath),
+    input,
     crlfDelay: Infinity,
   });
 
@@ -131,6 +201,10 @@ async function run() {
     const a = (parts[sIdx] || '').trim();
     const b = (parts[tIdx] || '').trim();
     if (!a || !b) continue;
+    // An empty AFMprob cell means no probability (undefined), not 0, so minProb keeps the row
+    const rawAP = apIdx >= 0 ? (parts[apIdx] || '').trim() : '';
+    const ap = rawAP ? Number(rawAP) : undefined;
+    if (typeof minProb === 'number' && typeof ap === 'number' && !Number.isNaN(ap) && ap < minProb) continue;
     // Capture display names if provided
     if (n1Idx >= 0) {
       const d1 = (parts[n1Idx] || '').trim();
@@ -143,7 +217,6 @@ async function run() {
     nodeSet.add(a); nodeSet.add(b);
     const w = wIdx >= 0 ? Number((parts[wIdx] || '').trim() || '0') : 1;
     const adb = adbIdx >= 0 ? String((parts[adbIdx] || '').trim()) : '';
-    const ap = apIdx >= 0 ? Number((parts[apIdx] || '').trim() || '0') : undefined;
     const rawLoc1 = loc1Idx >= 0 ? String((parts[loc1Idx] || '').trim()) : '';
     const rawLoc2 = loc2Idx >= 0 ? String((parts[loc2Idx] || '').trim()) : '';
     const splitLocs = (s) => String(s || '').split(/[,;|]/g).map(x => x.trim()).filter(Boolean);
@@ -174,7 +247,13 @@ async function run() {
     addLocs(b, locs2);
   }
 
-  // Build graphology graph
+  if (header === null) throw new Error(`No header with columns ${sourceCol}/${targetCol} found in ${inputPath}`);
+  return {nodeSet, edgesRaw, edgesRawLoc, idToLabel, nodeIdToAllDBs, nodeHasNone, proteinToLocs};
+}
+
+// Build the graphology graph and assign ForceAtlas2 positions and Louvain communities.
+// With `onProgress(stage, fraction)` the layout runs in batches so it can report between them.
+function buildLayoutGraph({nodeSet, edgesRaw}, {directed = false, onProgress} = {}) {
   const GraphCtor = directed ? DirectedGraph : UndirectedGraph;
   const graph = new GraphCtor();
   for (const id of nodeSet) {
@@ -194,18 +273,62 @@ async function run() {
   // Compute layout and communities
   const n = graph.order;
   const iterations = n >= 20000 ? 250 : n >= 10000 ? 350 : n >= 5000 ? 450 : 800;
-  fa2.assign(graph, {
-    iterations,
-    settings: {
-      gravity: 1.2,
-      scalingRatio: 2.0,
-      slowDown: 10,
-      barnesHutOptimize: n > 2000,
-      adjustSizes: true,
-    },
-  });
+  const settings = {
+    gravity: 1.2,
+    scalingRatio: 2.0,
+    slowDown: 10,
+    barnesHutOptimize: n > 2000,
+    adjustSizes: true,
+  };
+  if (onProgress) {
+    const batch = 25;
+    for (let done = 0; done < iterations; done += batch) {
+      fa2.assign(graph, {iterations: Math.min(batch, iterations - done), settings});
+      onProgress('layout', Math.min(1, (done + batch) / iterations));
+    }
+  } else {
+    fa2.assign(graph, {iterations, settings});
+  }
 
+  if (onProgress) onProgress('communities', 0);
   louvain.assign(graph, {resolution: 1});
+  if (onProgress) onProgress('communities', 1);
+  return graph;
+}
+
+async function run() {
+  const args = parseArgs(process.argv);
+  const input = args.input || args.i;
+  if (!input) {
+    console.error('Missing --input /absolute/path/to/file.tsv');
+    process.exit(1);
+  }
+  const inputPath = path.resolve(String(input));
+  if (!fs.existsSync(inputPath)) {
+    console.error('Input not found:', inputPath);
+    process.exit(1);
+  }
+  const datasetId = args.dataset ? String(args.dataset) : null;
+  if (datasetId && !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(datasetId)) {
+    console.error('Invalid --dataset id (letters, digits, ".", "_" and "-")');
+    process.exit(1);
+  }
+  const datasetDir = datasetId ? path.resolve(process.env.DATASETS_DIR || 'data/datasets', datasetId) : null;
+  const outputPath = datasetDir ? path.join(datasetDir, 'graph.json') : path.resolve(String(args.output || 'public/graph.json'));
+  const outputLocalityPath = datasetDir ? path.join(datasetDir, 'graph_locality.json') : path.resolve(String(args.localityOutput || path.join(path.dirname(outputPath), path.basename(outputPath).replace(/\.json$/, '_locality.json'))));
+  const directed = !!args.directed;
+  const limit = args.limit ? Number(args.limit) : Infinity;
+  const minProb = args.minProb !== undefined ? Number(args.minProb) : undefined;
+  if (minProb !== undefined && Number.isNaN(minProb)) {
+    console.error('--minProb must be a number');
+    process.exit(1);
+  }
+
+  const progress = progressReporter(!!args.progress);
+  const parsed = await readTsv(inputPath, columnOptions(args), limit, {minProb, onProgress: args.progress ? (f) => progress('read', f) : undefined});
+  progress('read', 1);
+  const {nodeSet, edgesRawLoc, idToLabel, nodeIdToAllDBs, nodeHasNone, proteinToLocs} = parsed;
+  const graph = buildLayoutGraph(parsed, {directed, onProgress: args.progress ? progress : undefined});
 
   // Export
   const nodesOut = [];
@@ -266,9 +389,12 @@ async function run() {
     adjacency,
   };
 
+  progress('write', 0);
   ensureDirSync(path.dirname(outputPath));
   fs.writeFileSync(outputPath, JSON.stringify(out));
-  console.log(`Wrote ${outputPath} with ${nodesOut.length} nodes and ${edgesOut.length} edges`);
+  const binaryPath = writeGraphBinary(outputPath, out, {directed});
+  progress('write', 1);
+  console.log(`Wrote ${outputPath} with ${nodesOut.length} nodes and ${edgesOut.length} edges (+ ${path.basename(binaryPath)})`);
 
   // ----- Build locality view -----
   // Build node instances per locality
@@ -280,30 +406,6 @@ async function run() {
   for (const id of Object.keys(proteinToLocs)) {
     for (const L of proteinToLocs[id]) locCounts[L] = (locCounts[L] || 0) + 1;
   }
-  // Group similar localities by explicit ontology from user
-  const groupDefs = [
-    {key: 'NUCLEUS', members: [
-      'Nucleus','Chromosome','Spliceosome','Centromere','Kinetochore','Nucleosome core','Telomere','Nuclear pore complex','DNA-directed RNA polymerase','Primosome'
-    ]},
-    {key: 'CYTOPLASM', members: [
-      'Cytoplasm','Cytoskeleton','Endoplasmic reticulum','Golgi apparatus','Cytoplasmic vesicle','Endosome','Lysosome','Microtubule','Mitochondrion outer membrane','Microsome','Intermediate filament','Peroxisome','Proteasome','Proteaosome','Lipid droplet','Sarcoplasmic reticulum','Signalosome','Inflammasome','Signal recognition particle','Thick filament','Vacuole','Viral envelope protein','Target membrane','Membrane'
-    ]},
-    {key: 'MITOCHONDRIA', members: [
-      'Mitochondrion','Mitochondrion inner membrane','Mitochondrion nuclei','Mitochondrion nucleoid'
-    ]},
-    {key: 'EXTRACELLULAR', members: [
-      'Cell membrane','Cell projection','Synapse','Cell junction','Cilium','Extracellular matrix','Immunoglobulin','Postsynaptic cell membrane','Flagellum','T cell receptor','Keratin','Tight junction','Synaptosome','Coated pit','Basement membrane','Dynein','MHC II','Gap junction','HDL','Exosome','MHC I','LDL','VLDL','Membrane attack complex','Surface film','Chylomicron','Virion','Target cell membrane'
-    ]},
-    {key: 'OTHER', members: []},
-  ];
-  const memberToGroup = Object.create(null);
-  for (let gi = 0; gi < groupDefs.length; gi++) {
-    for (const m of groupDefs[gi].members) memberToGroup[m.toLowerCase()] = gi;
-  }
-  function groupIndexOf(loc) {
-    const k = String(loc || '').toLowerCase();
-    return (k in memberToGroup) ? memberToGroup[k] : (groupDefs.length - 1);
-  }
   const locNamesSorted = locNamesAll.slice().sort((a, b) => {
     const ga = groupIndexOf(a);
     const gb = groupIndexOf(b);
@@ -499,9 +601,51 @@ async function run() {
   };
   ensureDirSync(path.dirname(outputLocalityPath));
   fs.writeFileSync(outputLocalityPath, JSON.stringify(outLoc));
-  console.log(`Wrote ${outputLocalityPath} with ${nodesOutL.length} nodes and ${edgesOutL.length} edges (locality view)`);
+  const binaryLocalityPath = writeGraphBinary(outputLocalityPath, outLoc);
+  progress('locality', 1);
+  console.log(`Wrote ${outputLocalityPath} with ${nodesOutL.length} nodes and ${edgesOutL.length} edges (locality view, + ${path.basename(binaryLocalityPath)})`);
+
+  if (datasetDir) {
+    writeDatasetMeta(datasetDir, {
+      id: datasetId,
+      name: args.name ? String(args.name) : datasetId,
+      description: args.description ? String(args.description) : undefined,
+      organism: String(args.organism || 'hsa').toLowerCase(),
+      source: args.inputName ? String(args.inputName) : inputPath,
+      thresholds: {
+        ...(minProb !== undefined ? {minProb} : {}),
+        ...(Number.isFinite(limit) ? {limit} : {}),
+      },
+      edges: edgesOut,
+      nodes: nodesOut.length,
+    });
+  }
+}
+
+// dataset.json next to the graph files: what the run is and how it was produced
+function writeDatasetMeta(dir, {id, name, description, organism, source, thresholds, edges, nodes}) {
+  let min = Infinity, max = -Infinity, novel = 0;
+  for (const e of edges) {
+    if (typeof e.afmprob === 'number' && !Number.isNaN(e.afmprob)) { min = Math.min(min, e.afmprob); max = Math.max(max, e.afmprob); }
+    if ((e.allDBs || '').trim().toLowerCase() === 'none') novel++;
+  }
+  const meta = {
+    id,
+    name,
+    description,
+    createdAt: new Date().toISOString(),
+    organism,
+    source,
+    thresholds,
+    stats: {nodes, edges: edges.length, novelEdges: novel, ...(Number.isFinite(min) ? {afmprob: {min, max}} : {})},
+  };
+  ensureDirSync(dir);
+  fs.writeFileSync(path.join(dir, 'dataset.json'), JSON.stringify(meta, null, 2) + '\n');
+  console.log(`Registered dataset ${id} in ${dir}`);
 }
 
-run().catch((err) => { console.error(err); process.exit(1); });
+module.exports = {parseArgs, columnOptions, readTsv, buildLayoutGraph, groupDefs, groupIndexOf};
+
+if (require.main === module) run().catch((err) => { console.error(err); process.exit(1); });
 
 
@@ -0,0 +1,35 @@
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { datasetFile, DatasetError } from '../../../../../../lib/datasets';
+
+// GET /api/datasets/<id>/graph[?view=locality][&format=bin] -> the graph.json of that run, streamed
+// from disk. format=bin asks for the binary graph.bin and falls back to JSON when the run has
+// none; Content-Type tells the client which one it got.
+export async function GET(req: NextRequest, ctx: { params: Promise<{ datasetId: string }> }) {
+  try {
+    const { datasetId } = await ctx.params;
+    const view = req.nextUrl.searchParams.get('view') || 'default';
+    if (view !== 'default' && view !== 'locality') {
+      return NextResponse.json({ error: 'view must be default or locality' }, { status: 400 });
+    }
+    const format = req.nextUrl.searchParams.get('format') || 'json';
+    if (format !== 'json' && format !== 'bin') {
+      return NextResponse.json({ error: 'format must be json or bin' }, { status: 400 });
+    }
+    const { file, format: served } = await datasetFile(datasetId, view, format);
+    const stat = await fs.stat(file);
+    return new NextResponse(Readable.toWeb(createReadStream(file)) as ReadableStream, {
+      headers: {
+        'Content-Type': served === 'bin' ? 'application/octet-stream' : 'application/json',
+        'Content-Length': String(stat.size),
+        'Last-Modified': stat.mtime.toUTCString(),
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof DatasetError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[api/datasets/graph]', error);
+    return NextResponse.json({ error: 'Failed to read dataset' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DatasetError } from '../../../../../../lib/datasets';
+import { queryTile, searchTileNodes } from '../../../../../../lib/graphTiles';
+
+// GET /api/datasets/<id>/tiles?bbox=minX,minY,maxX,maxY&res=<world units>&max=<nodes>&focus=<node>[&view=locality]
+//   -> { bounds, total: { nodes, edges }, nodes, edges, clusters, truncated }
+// GET /api/datasets/<id>/tiles?q=<name> -> { matches: [{ id, name, x, y }] }
+export async function GET(req: NextRequest, ctx: { params: Promise<{ datasetId: string }> }) {
+  try {
+    const { datasetId } = await ctx.params;
+    const sp = req.nextUrl.searchParams;
+    const view = sp.get('view') || 'default';
+    if (view !== 'default' && view !== 'locality') {
+      return NextResponse.json({ error: 'view must be default or locality' }, { status: 400 });
+    }
+    const q = sp.get('q');
+    if (q !== null) return NextResponse.json({ matches: await searchTileNodes(datasetId, view, q) });
+
+    let bbox;
+    const rawBBox = sp.get('bbox');
+    if (rawBBox) {
+      const parts = rawBBox.split(',').map(Number);
+      if (parts.length !== 4 || !parts.every(Number.isFinite)) {
+        return NextResponse.json({ error: 'bbox must be minX,minY,maxX,maxY' }, { status: 400 });
+      }
+      bbox = { minX: parts[0], minY: parts[1], maxX: parts[2], maxY: parts[3] };
+    }
+    const res = Number(sp.get('res') || 0);
+    const max = sp.get('max') ? Number(sp.get('max')) : undefined;
+    if (!Number.isFinite(res) || res < 0 || (max !== undefined && !Number.isFinite(max))) {
+      return NextResponse.json({ error: 'res and max must be numbers' }, { status: 400 });
+    }
+    const tile = await queryTile(datasetId, view, { bbox, resolution: res, maxNodes: max, focus: sp.get('focus') || undefined });
+    return NextResponse.json(tile, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    if (error instanceof DatasetError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[api/datasets/tiles]', error);
+    return NextResponse.json({ error: 'Failed to read dataset tiles' }, { status: 500 });
+  }
+}
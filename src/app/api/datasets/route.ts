@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { listDatasets } from '../../../../lib/datasets';
+
+// GET /api/datasets -> { datasets: [{ id, name, description, createdAt, organism, source, thresholds, stats, views }] }
+export async function GET() {
+  try {
+    return NextResponse.json({ datasets: await listDatasets() }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('[api/datasets]', error);
+    return NextResponse.json({ error: 'Failed to list datasets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { querySubgraph, MAX_RADIUS } from '../../../../lib/graph';
+import { isOrgCode } from '../../../../lib/organisms';
+
+// GET /api/graph?proteins=TP53,MDM2&radius=1&minProb=0.5&novelOnly=1&limit=2000
+// GET /api/graph?bbox=minX,minY,maxX,maxY
+// Either form takes &organism=mmu to stay within one organism's proteins
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const proteins = (sp.get('proteins') || '').split(',').map((s) => s.trim()).filter(Boolean);
+  const bboxRaw = sp.get('bbox');
+  let bbox: [number, number, number, number] | undefined;
+  if (bboxRaw) {
+    const parts = bboxRaw.split(',').map(Number);
+    if (parts.length !== 4 || parts.some((v) => !Number.isFinite(v))) {
+      return NextResponse.json({ error: 'bbox must be minX,minY,maxX,maxY' }, { status: 400 });
+    }
+    bbox = [Math.min(parts[0], parts[2]), Math.min(parts[1], parts[3]), Math.max(parts[0], parts[2]), Math.max(parts[1], parts[3])];
+  }
+  if (!proteins.length && !bbox) {
+    return NextResponse.json({ error: 'Provide proteins and/or bbox' }, { status: 400 });
+  }
+  const radius = sp.has('radius') ? Number(sp.get('radius')) : undefined;
+  if (radius !== undefined && (!Number.isInteger(radius) || radius < 0 || radius > MAX_RADIUS)) {
+    return NextResponse.json({ error: `radius must be an integer between 0 and ${MAX_RADIUS}` }, { status: 400 });
+  }
+  const minProb = sp.has('minProb') ? Number(sp.get('minProb')) : undefined;
+  if (minProb !== undefined && !Number.isFinite(minProb)) {
+    return NextResponse.json({ error: 'minProb must be a number' }, { status: 400 });
+  }
+  const limit = sp.has('limit') ? Number(sp.get('limit')) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+  const novelOnly = sp.get('novelOnly') === '1' || sp.get('novelOnly') === 'true';
+  const organism = sp.get('organism')?.toLowerCase() || undefined;
+  if (organism !== undefined && !isOrgCode(organism)) {
+    return NextResponse.json({ error: 'organism must be a KEGG organism code (e.g. hsa, mmu)' }, { status: 400 });
+  }
+  try {
+    const graph = await querySubgraph({ proteins, radius, bbox, minProb, novelOnly, limit, organism });
+    return NextResponse.json(graph);
+  } catch (error) {
+    console.error('[api/graph]', error);
+    return NextResponse.json({ error: 'Failed to query graph' }, { status: 500 });
+  }
+}
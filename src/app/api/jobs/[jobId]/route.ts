@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '../../../../../lib/jobs';
+
+// GET /api/jobs/<id> -> { job } with status, stage, progress (0..1) and the tail of the build log
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await ctx.params;
+  const job = getJob(jobId);
+  if (!job) return NextResponse.json({ error: `Unknown job ${jobId}` }, { status: 404 });
+  return NextResponse.json({ job }, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,85 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { Readable, Transform } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { pipeline } from 'stream/promises';
+import { NextRequest, NextResponse } from 'next/server';
+import { DATASET_ID_RE, listDatasets } from '../../../../lib/datasets';
+import { GRAPH_COLUMNS, listJobs, pendingDatasetIds, startGraphJob, uploadPath, type GraphJobOptions } from '../../../../lib/jobs';
+import { isOrgCode } from '../../../../lib/organisms';
+
+// Largest TSV accepted, in bytes (MAX_UPLOAD_BYTES overrides the 2 GB default)
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 2 * 1024 ** 3;
+
+class UploadTooLargeError extends Error {}
+
+// Pass bytes through, failing the pipeline once more than `max` have gone by
+function byteLimit(max: number) {
+  let seen = 0;
+  return new Transform({
+    transform(chunk: Buffer, _enc, callback) {
+      seen += chunk.length;
+      callback(seen > max ? new UploadTooLargeError() : null, seen > max ? undefined : chunk);
+    },
+  });
+}
+
+// GET /api/jobs -> { jobs: [{ id, datasetId, fileName, status, stage, progress, log, error, createdAt, finishedAt }] }
+export async function GET() {
+  return NextResponse.json({ jobs: listJobs() }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+// POST /api/jobs?dataset=<id>&name=&description=&organism=&minProb=&file=<name>&source=<header>&...
+// Body: the raw TSV. The file is streamed to disk rather than buffered, prediction tables get
+// large. Column params (source, target, name1, name2, allDBs, afmprob, locality1, locality2)
+// name the TSV headers to use; "none" marks an optional column as absent. Responds 202 with the
+// queued job.
+export async function POST(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const datasetId = (sp.get('dataset') || '').trim();
+  if (!DATASET_ID_RE.test(datasetId)) {
+    return NextResponse.json({ error: 'dataset must be letters, digits, ".", "_" or "-"' }, { status: 400 });
+  }
+  const organism = (sp.get('organism') || 'hsa').trim().toLowerCase();
+  if (!isOrgCode(organism)) return NextResponse.json({ error: 'Invalid organism code' }, { status: 400 });
+  const minProbRaw = sp.get('minProb');
+  const minProb = minProbRaw ? Number(minProbRaw) : undefined;
+  if (minProb !== undefined && !(minProb >= 0 && minProb <= 1)) {
+    return NextResponse.json({ error: 'minProb must be between 0 and 1' }, { status: 400 });
+  }
+  if (!req.body) return NextResponse.json({ error: 'Request body must be the TSV file' }, { status: 400 });
+  const tooLarge = () => NextResponse.json({ error: `Upload is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 ** 2)} MB` }, { status: 413 });
+  if (Number(req.headers.get('content-length')) > MAX_UPLOAD_BYTES) return tooLarge();
+
+  const columns: GraphJobOptions['columns'] = {};
+  for (const col of GRAPH_COLUMNS) {
+    const header = (sp.get(col) || '').trim();
+    if (header) columns[col] = header;
+  }
+
+  let file: string | null = null;
+  try {
+    const taken = new Set([...(await listDatasets()).map((d) => d.id), ...pendingDatasetIds()]);
+    if (taken.has(datasetId)) return NextResponse.json({ error: `Dataset ${datasetId} already exists` }, { status: 409 });
+
+    file = await uploadPath();
+    await pipeline(Readable.fromWeb(req.body as WebReadableStream<Uint8Array>), byteLimit(MAX_UPLOAD_BYTES), createWriteStream(file));
+    if ((await fs.stat(file)).size === 0) {
+      await fs.unlink(file);
+      return NextResponse.json({ error: 'Uploaded file is empty' }, { status: 400 });
+    }
+    const job = startGraphJob(file, sp.get('file') || 'upload.tsv', {
+      datasetId,
+      name: (sp.get('name') || '').trim() || undefined,
+      description: (sp.get('description') || '').trim() || undefined,
+      organism,
+      minProb,
+      columns,
+    });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    if (file) await fs.unlink(file).catch(() => {});
+    if (error instanceof UploadTooLargeError) return tooLarge();
+    console.error('[api/jobs]', error);
+    return NextResponse.json({ error: 'Failed to start graph build' }, { status: 500 });
+  }
+}
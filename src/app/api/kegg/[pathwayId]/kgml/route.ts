@@ -1,20 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { keggGet, KeggError } from '../../../../../../lib/kegg';
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ pathwayId: string }> }) {
   try {
     const { pathwayId } = await ctx.params;
-    const response = await fetch(`https://rest.kegg.jp/get/${pathwayId}/kgml`);
-    const xml = await response.text();
-    return new NextResponse(xml, {
+    if (!/^[a-z]{2,4}\d{5}$/i.test(pathwayId)) {
+      return NextResponse.json({ error: 'Invalid pathway id' }, { status: 400 });
+    }
+    const { body, cache } = await keggGet(`get/${pathwayId}/kgml`);
+    return new NextResponse(body, {
       status: 200,
       headers: {
         'Content-Type': 'application/xml',
         'Access-Control-Allow-Origin': '*',
+        'X-Cache': cache,
       },
     });
   } catch (error) {
+    if (error instanceof KeggError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[api/kegg/kgml]', error);
     return NextResponse.json({ error: 'Failed to fetch KGML' }, { status: 500 });
   }
 }
-
-
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { keggGet, KeggError } from '../../../../../../lib/kegg';
+import { parseKgml, KgmlParseError } from '../../../../../../lib/kgml';
+
+// GET /api/kegg/hsa04150/pathway -> KgmlPathway JSON (entries, components, relations, subtypes, graphics)
+export async function GET(req: NextRequest, ctx: { params: Promise<{ pathwayId: string }> }) {
+  try {
+    const { pathwayId } = await ctx.params;
+    if (!/^[a-z]{2,4}\d{5}$/i.test(pathwayId)) {
+      return NextResponse.json({ error: 'Invalid pathway id' }, { status: 400 });
+    }
+    const { body, cache } = await keggGet(`get/${pathwayId}/kgml`);
+    return NextResponse.json(parseKgml(body), {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'X-Cache': cache,
+      },
+    });
+  } catch (error) {
+    if (error instanceof KeggError) return NextResponse.json({ error: error.message }, { status: error.status });
+    if (error instanceof KgmlParseError) return NextResponse.json({ error: error.message }, { status: 502 });
+    console.error('[api/kegg/pathway]', error);
+    return NextResponse.json({ error: 'Failed to parse KGML' }, { status: 500 });
+  }
+}
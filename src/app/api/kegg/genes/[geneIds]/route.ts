@@ -1,21 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { keggGetEntries, isKeggGeneId, KeggError } from '../../../../../../lib/kegg';
+
+// Upper bound on ids per request; the proxy splits them into KEGG-sized batches itself
+const MAX_IDS = 1000;
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ geneIds: string }> }) {
   try {
+    // Next has already decoded the segment; decoding again would choke on a literal '%'
     const { geneIds } = await ctx.params;
-    const keggIds = geneIds.replace(/,/g, '+');
-    const response = await fetch(`https://rest.kegg.jp/get/${keggIds}`);
-    const text = await response.text();
+    const ids = Array.from(new Set(geneIds.split(/[,+\s]+/).map((s) => s.trim().toLowerCase()).filter(Boolean)));
+    if (!ids.length) return NextResponse.json({ error: 'No gene ids given' }, { status: 400 });
+    if (ids.length > MAX_IDS) return NextResponse.json({ error: `At most ${MAX_IDS} gene ids per request` }, { status: 400 });
+    const invalid = ids.filter((id) => !isKeggGeneId(id));
+    if (invalid.length) {
+      return NextResponse.json({ error: `Invalid gene ids (expected organism:locus, e.g. hsa:7157): ${invalid.slice(0, 10).join(', ')}` }, { status: 400 });
+    }
+    const { text, cache, missing } = await keggGetEntries(ids);
     return new NextResponse(text, {
       status: 200,
       headers: {
         'Content-Type': 'text/plain',
         'Access-Control-Allow-Origin': '*',
+        'X-Cache': cache,
+        ...(missing.length ? { 'X-Missing-Ids': missing.join(',') } : {}),
       },
     });
   } catch (error) {
+    if (error instanceof KeggError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[api/kegg/genes]', error);
     return NextResponse.json({ error: 'Failed to fetch bulk gene info' }, { status: 500 });
   }
 }
-
-
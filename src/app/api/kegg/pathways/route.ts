@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { KeggError } from '../../../../../lib/kegg';
+import { getPathwayCatalog, filterPathways, pathwaysForGene } from '../../../../../lib/keggCatalog';
+import { isOrgCode, DEFAULT_ORGANISM } from '../../../../../lib/organisms';
+
+// GET /api/kegg/pathways?org=hsa[&q=mapk][&gene=TP53]
+// -> { org, pathways: [{ id, name, category, subcategory }], gene?: { query, ids } }
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const org = (sp.get('org') || DEFAULT_ORGANISM).trim().toLowerCase();
+    if (!isOrgCode(org)) return NextResponse.json({ error: 'Invalid organism code' }, { status: 400 });
+    const q = (sp.get('q') || '').trim();
+    const gene = (sp.get('gene') || '').trim();
+
+    const catalog = await getPathwayCatalog(org);
+    let pathways = filterPathways(catalog.pathways, q);
+    let cache = catalog.cache;
+    let geneInfo: { query: string; ids: string[] } | undefined;
+    if (gene) {
+      const hit = await pathwaysForGene(org, gene);
+      const ids = new Set(hit.pathwayIds);
+      pathways = pathways.filter((p) => ids.has(p.id));
+      geneInfo = { query: gene, ids: hit.geneIds };
+      if (hit.cache !== 'HIT') cache = hit.cache === 'STALE' || cache === 'STALE' ? 'STALE' : 'MISS';
+    }
+    return NextResponse.json({ org, pathways, ...(geneInfo ? { gene: geneInfo } : {}) }, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'X-Cache': cache,
+      },
+    });
+  } catch (error) {
+    if (error instanceof KeggError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[api/kegg/pathways]', error);
+    return NextResponse.json({ error: 'Failed to load pathway catalog' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queryNeighbors, MAX_RADIUS } from '../../../../lib/graph';
+import { isOrgCode } from '../../../../lib/organisms';
+
+type NeighborParams = { symbols: string[]; depth?: number; minProb?: number; novelOnly?: boolean; limit?: number; organism?: string };
+
+function validate(p: NeighborParams): string | null {
+  if (!p.symbols.length) return 'symbols is required';
+  if (p.depth !== undefined && (!Number.isInteger(p.depth) || p.depth < 0 || p.depth > MAX_RADIUS)) return `depth must be an integer between 0 and ${MAX_RADIUS}`;
+  if (p.minProb !== undefined && !Number.isFinite(p.minProb)) return 'minProb must be a number';
+  if (p.limit !== undefined && (!Number.isInteger(p.limit) || p.limit <= 0)) return 'limit must be a positive integer';
+  if (p.organism !== undefined && !isOrgCode(p.organism)) return 'organism must be a KEGG organism code (e.g. hsa, mmu)';
+  return null;
+}
+
+async function respond(p: NeighborParams) {
+  const err = validate(p);
+  if (err) return NextResponse.json({ error: err }, { status: 400 });
+  try {
+    return NextResponse.json(await queryNeighbors(p));
+  } catch (error) {
+    console.error('[api/neighbors]', error);
+    return NextResponse.json({ error: 'Failed to query neighbors' }, { status: 500 });
+  }
+}
+
+// GET /api/neighbors?symbols=MTOR,RPTOR&depth=1&minProb=0.7&novelOnly=1&organism=hsa
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  return respond({
+    symbols: (sp.get('symbols') || '').split(',').map((s) => s.trim()).filter(Boolean),
+    depth: sp.has('depth') ? Number(sp.get('depth')) : undefined,
+    minProb: sp.has('minProb') ? Number(sp.get('minProb')) : undefined,
+    novelOnly: sp.get('novelOnly') === '1' || sp.get('novelOnly') === 'true',
+    limit: sp.has('limit') ? Number(sp.get('limit')) : undefined,
+    organism: sp.get('organism')?.toLowerCase() || undefined,
+  });
+}
+
+// POST with a JSON body of the same fields, for pathways whose symbol lists outgrow a URL.
+// Fields of the wrong type become NaN so they fail validation like a bad query parameter.
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try { body = await req.json(); } catch { return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }); }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+  const b = body as Record<string, unknown>;
+  const num = (v: unknown) => (v === undefined || v === null ? undefined : typeof v === 'number' ? v : NaN);
+  if (b.organism !== undefined && typeof b.organism !== 'string') return NextResponse.json({ error: 'organism must be a string' }, { status: 400 });
+  return respond({
+    symbols: Array.isArray(b.symbols) ? b.symbols.filter((s): s is string => typeof s === 'string').map((s) => s.trim()).filter(Boolean) : [],
+    depth: num(b.depth),
+    minProb: num(b.minProb),
+    novelOnly: b.novelOnly === true || b.novelOnly === 1 || b.novelOnly === '1' || b.novelOnly === 'true',
+    limit: num(b.limit),
+    organism: b.organism ? b.organism.toLowerCase() : undefined,
+  });
+}
@@ -44,6 +44,9 @@ export default function RootLayout({
                 <Link href="/pathways" className="hover:text-white">
                   Pathways
                 </Link>
+                <Link href="/upload" className="hover:text-white">
+                  Upload
+                </Link>
               </div>
               <div />
             </nav>
@@ -3,6 +3,10 @@
 import React, { useMemo, useRef, useState } from "react";
 import KeggPathwayViewer from "@/components/KeggPathwayViewer";
 import PathwayNeighborGraph from "@/components/PathwayNeighborGraph";
+import PathwayPicker from "@/components/PathwayPicker";
+import { readQuery, writeQuery, queryList } from "../../../lib/urlState";
+import { ORGANISMS, DEFAULT_ORGANISM, organismByCode, pathwayOrganism, pathwayForOrganism } from "../../../lib/organisms";
+import { parseOverlayTable, geneValues, tableMaxAbs, OverlayParseError, DEFAULT_COLOR_SCALE, type ColorScale, type OverlayMapping, type OverlayTable } from "../../../lib/overlay";
 
 export default function PathwaysPage() {
   const [pathway, setPathway] = useState("hsa04150");
@@ -13,23 +17,101 @@ export default function PathwaysPage() {
   const [selectedSymbols, setSelectedSymbols] = useState<string[]>([]);
   const [selectedEdge, setSelectedEdge] = useState<{left: string[]; right: string[]} | undefined>(undefined);
   const [graphVersion, setGraphVersion] = useState(0);
+  const [neighborDepth, setNeighborDepth] = useState(1);
+  const [neighborConfidence, setNeighborConfidence] = useState(0);
+  const [neighborNovelOnly, setNeighborNovelOnly] = useState(false);
   const lastDataHashRef = useRef<string>("");
+  // The organism is whatever the pathway id says (mmu04150 -> mmu)
+  const organism = pathwayOrganism(pathway) || DEFAULT_ORGANISM;
 
-  const sampleOverlay = useMemo<Record<string, number>>(() => ({
-    "78|79": -0.8,
-    "81|82": 0.9,
-    "83|84": 0.5,
-    "85|86": -0.3,
-  }), []);
+  const [overlayTable, setOverlayTable] = useState<OverlayTable | null>(null);
+  const [overlayFile, setOverlayFile] = useState("");
+  const [overlayError, setOverlayError] = useState("");
+  const [overlayMapping, setOverlayMapping] = useState<OverlayMapping | null>(null);
+  const [colorScale, setColorScale] = useState<ColorScale>(DEFAULT_COLOR_SCALE);
+  const [condition, setCondition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const nodeOverlay = useMemo(() => (overlayTable ? geneValues(overlayTable, condition) : undefined), [overlayTable, condition]);
+  const conditionCount = overlayTable?.conditions.length || 0;
+
+  // Step through conditions while playing, looping back to the first
+  React.useEffect(() => {
+    if (!playing || conditionCount < 2) return;
+    const t = setInterval(() => setCondition((c) => (c + 1) % conditionCount), 1500);
+    return () => clearInterval(t);
+  }, [playing, conditionCount]);
+  const updateScale = (patch: Partial<ColorScale>) => setColorScale((s) => ({ ...s, ...patch }));
+
+  async function loadOverlayFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      const table = parseOverlayTable(await file.text());
+      setOverlayTable(table);
+      setOverlayFile(file.name);
+      setCondition(0);
+      setPlaying(false);
+      // Start from a symmetric scale that covers the data
+      const maxAbs = tableMaxAbs(table);
+      const bound = maxAbs > 0 ? Math.ceil(maxAbs * 10) / 10 : 1;
+      updateScale({ min: -bound, center: 0, max: bound });
+      setOverlayError("");
+    } catch (err) {
+      setOverlayError(err instanceof OverlayParseError ? err.message : "Could not read file");
+    }
+  }
+
+  function clearOverlay() {
+    setOverlayTable(null);
+    setColorScale(DEFAULT_COLOR_SCALE);
+    setOverlayFile("");
+    setOverlayError("");
+    setOverlayMapping(null);
+    setCondition(0);
+    setPlaying(false);
+  }
+
+  // Shareable selection (?pathway=hsa04010&select=MTOR,RPTOR or &edge=MTOR|RPTOR,MLST8).
+  // The selection is held until its pathway is active, since switching pathways clears it.
+  const pendingUrlSelectionRef = useRef<{pathway: string; symbols: string[]; edge?: {left: string[]; right: string[]}} | null>(null);
+  const skipFirstUrlWriteRef = useRef(false);
+  React.useLayoutEffect(() => {
+    const q = readQuery();
+    const id = (q.get("pathway") || "").trim();
+    const target = /^[a-z]{2,4}\d{5}$/i.test(id) ? id : pathway;
+    if (target !== pathway) { setPathway(target); setPathwayInput(target); }
+    const [left, right] = (q.get("edge") || "").split("|").map((side) => side.split(",").map((s) => s.trim()).filter(Boolean));
+    pendingUrlSelectionRef.current = {
+      pathway: target,
+      symbols: queryList(q, "select"),
+      edge: left?.length && right?.length ? { left, right } : undefined,
+    };
+    skipFirstUrlWriteRef.current = true;
+  }, []);
 
   // Immediately clear right-hand graph when pathway changes to avoid visual stacking/flash
   React.useEffect(() => {
     setProteinSymbols([]);
     setProteinIds([]);
+    const pending = pendingUrlSelectionRef.current;
+    if (pending && pending.pathway === pathway) {
+      pendingUrlSelectionRef.current = null;
+      setSelectedSymbols(pending.edge ? [] : pending.symbols);
+      setSelectedEdge(pending.edge);
+      return;
+    }
     setSelectedSymbols([]);
     setSelectedEdge(undefined);
   }, [pathway]);
 
+  React.useEffect(() => {
+    if (skipFirstUrlWriteRef.current) { skipFirstUrlWriteRef.current = false; return; }
+    writeQuery({
+      pathway,
+      select: selectedSymbols.join(","),
+      edge: selectedEdge && selectedEdge.left.length && selectedEdge.right.length ? `${selectedEdge.left.join(",")}|${selectedEdge.right.join(",")}` : null,
+    });
+  }, [pathway, selectedSymbols.join(","), selectedEdge ? `${selectedEdge.left.join(",")}|${selectedEdge.right.join(",")}` : ""]);
+
   return (
     <div className="w-full h-full overflow-auto p-6 space-y-6 bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
@@ -57,15 +139,16 @@ export default function PathwaysPage() {
             <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">Pathway is rendered from KGML data with exact positioning and colors</div>
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Popular Pathways</label>
-            <select value={pathway} onChange={(e) => setPathway(e.target.value)} className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100">
-              <option value="hsa04150">mTOR signaling (hsa04150)</option>
-              <option value="hsa04010">MAPK signaling (hsa04010)</option>
-              <option value="hsa04110">Cell cycle (hsa04110)</option>
-              <option value="hsa04210">Apoptosis (hsa04210)</option>
-              <option value="hsa04151">PI3K-Akt signaling (hsa04151)</option>
-              <option value="hsa04068">FoxO signaling (hsa04068)</option>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Browse Pathways</label>
+            <select
+              value={organism}
+              onChange={(e) => { const id = pathwayForOrganism(pathway, e.target.value); setPathway(id); setPathwayInput(id); }}
+              className="w-full mb-2 px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+            >
+              {ORGANISMS.map((o) => <option key={o.code} value={o.code}>{o.name}</option>)}
+              {!organismByCode(organism) ? <option value={organism}>{organism}</option> : null}
             </select>
+            <PathwayPicker org={organism} value={pathway} onSelect={(id) => { setPathway(id); setPathwayInput(id); }} />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Legend</label>
@@ -74,6 +157,60 @@ export default function PathwaysPage() {
               <div className="flex items-center gap-2"><div className="w-4 h-1 bg-gray-400"></div><span>No change (0.0)</span></div>
               <div className="flex items-center gap-2"><div className="w-4 h-1 bg-blue-500"></div><span>Activation (+1.0)</span></div>
             </div>
+            {overlayTable && conditionCount > 1 ? (
+            <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-gray-700 dark:text-gray-200">
+              <button onClick={() => setPlaying((p) => !p)} className="px-2 py-1 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700 w-14">{playing ? 'Pause' : 'Play'}</button>
+              <input type="range" min={0} max={conditionCount - 1} step={1} value={condition} onChange={(e) => { setPlaying(false); setCondition(Number(e.target.value)); }} className="w-64" />
+              <span className="font-medium">{overlayTable.conditions[condition]}</span>
+              <span className="text-gray-500 dark:text-gray-400">({condition + 1}/{conditionCount})</span>
+            </div>
+          ) : null}
+          {nodeOverlay && Object.keys(nodeOverlay).length ? (
+              <div className="mt-3 text-xs text-gray-700 dark:text-gray-200">
+                <div className="mb-1">Gene values ({overlayTable?.conditions[condition]})</div>
+                <div className="h-3 w-full rounded border border-gray-300 dark:border-gray-600" style={{ background: `linear-gradient(to right, ${colorScale.lowColor}, ${colorScale.midColor} ${colorScale.max > colorScale.min ? Math.round(((colorScale.center - colorScale.min) / (colorScale.max - colorScale.min)) * 100) : 50}%, ${colorScale.highColor})` }} />
+                <div className="flex justify-between mt-0.5"><span>{colorScale.min}</span><span>{colorScale.center}</span><span>{colorScale.max}</span></div>
+              </div>
+            ) : null}
+          </div>
+        </div>
+        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Experiment Data</label>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <input type="file" accept=".csv,.tsv,.txt" onChange={(e) => { loadOverlayFile(e.target.files?.[0]); e.target.value = ''; }} className="text-sm" />
+            {overlayTable ? (
+              <>
+                <span className="text-gray-700 dark:text-gray-200">
+                  {overlayFile}: {overlayTable.rows.length} {overlayTable.kind === 'pair' ? 'gene pairs' : 'genes'} × {conditionCount} condition{conditionCount === 1 ? '' : 's'}
+                  {overlayTable.skipped ? `, ${overlayTable.skipped} rows skipped` : ''}
+                  {overlayMapping ? ` — ${overlayMapping.matchedRows} matched, ${overlayMapping.matchedEdges} edges colored` : ''}
+                </span>
+                <button onClick={clearOverlay} className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700">Clear</button>
+              </>
+            ) : null}
+            {overlayError ? <span className="text-red-600">{overlayError}</span> : null}
+          </div>
+          {nodeOverlay && Object.keys(nodeOverlay).length ? (
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-700 dark:text-gray-200">
+              <span className="font-medium">Gene color scale</span>
+              {([['min', 'Low'], ['center', 'Center'], ['max', 'High']] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-1">
+                  <span>{label}</span>
+                  <input type="number" step="0.1" value={colorScale[key]} onChange={(e) => { const v = Number(e.target.value); if (Number.isFinite(v)) updateScale({ [key]: v }); }} className="w-16 px-1 py-0.5 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900" />
+                </label>
+              ))}
+              {([['lowColor', 'Low'], ['midColor', 'Center'], ['highColor', 'High']] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-1">
+                  <input type="color" value={colorScale[key]} onChange={(e) => updateScale({ [key]: e.target.value })} title={`${label} color`} className="w-6 h-6 p-0 border-0 bg-transparent" />
+                </label>
+              ))}
+              <button onClick={() => setColorScale(DEFAULT_COLOR_SCALE)} className="px-2 py-1 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700">Reset</button>
+            </div>
+          ) : null}
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            CSV or TSV with a header row: <code>gene,value</code> for gene-level values or <code>source,target,value</code> for gene pairs.
+            Genes may be symbols (MTOR) or KEGG gene ids (hsa:2475). Each numeric column is a condition or time point
+            (p-value/FDR columns are ignored); edge values are scaled by the largest magnitude across conditions when it exceeds 1.
           </div>
         </div>
       </div>
@@ -81,7 +218,7 @@ export default function PathwaysPage() {
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-0">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-0">
           <div className="border-r border-gray-200 dark:border-gray-700 p-6">
-            <KeggPathwayViewer pathwayId={pathway} edgeOverlay={sampleOverlay} showNodeLabels={showLabels} onProteinSet={({geneIds, symbols}) => { 
+            <KeggPathwayViewer pathwayId={pathway} overlayTable={overlayTable} onOverlayMapped={setOverlayMapping} nodeOverlay={nodeOverlay} colorScale={colorScale} condition={condition} showNodeLabels={showLabels} onProteinSet={({geneIds, symbols}) => { 
               try { console.log('[PathwaysPage] onProteinSet', {pathway, geneIds: geneIds.length, symbols: symbols.length}); } catch {};
               const hash = `${pathway}|${symbols.length}|${symbols.slice().sort().join('|')}`;
               if (hash !== lastDataHashRef.current) {
@@ -95,9 +232,30 @@ export default function PathwaysPage() {
             }} selectedSymbols={selectedSymbols} onSelectSymbols={(syms) => { setSelectedSymbols(syms); setSelectedEdge(undefined); }} selectedEdge={selectedEdge} onSelectEdge={(pair) => { setSelectedEdge(pair); setSelectedSymbols([]); }} />
           </div>
           <div className="p-6">
-            <h3 className="text-sm font-semibold mb-2 text-gray-700 dark:text-gray-200">Proteins + neighbors</h3>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Proteins + neighbors</h3>
+              <div className="flex items-center gap-3 text-xs text-gray-700 dark:text-gray-200">
+                <label className="flex items-center gap-1">
+                  <span>Depth</span>
+                  <select value={neighborDepth} onChange={(e) => setNeighborDepth(Number(e.target.value))} className="px-1 py-0.5 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900">
+                    <option value={1}>1</option>
+                    <option value={2}>2</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  <span>Confidence ≥</span>
+                  <select value={neighborConfidence} onChange={(e) => setNeighborConfidence(Number(e.target.value))} className="px-1 py-0.5 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900">
+                    {[0, 0.5, 0.6, 0.7, 0.8, 0.9].map((v) => <option key={v} value={v}>{v === 0 ? 'any' : v.toFixed(1)}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={neighborNovelOnly} onChange={(e) => setNeighborNovelOnly(e.target.checked)} />
+                  <span>Novel only</span>
+                </label>
+              </div>
+            </div>
             <div className="h-[720px] rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
-              <PathwayNeighborGraph key={`${pathway}:${graphVersion}`} pathwayId={pathway} version={graphVersion} proteinSymbols={proteinSymbols} className="w-full h-full" selectedSymbols={selectedSymbols} onSelectSymbols={(syms) => { setSelectedSymbols(syms); setSelectedEdge(undefined); }} selectedEdge={selectedEdge} onSelectEdge={(pair) => { setSelectedEdge(pair); setSelectedSymbols([]); }} />
+              <PathwayNeighborGraph key={`${pathway}:${graphVersion}`} pathwayId={pathway} version={graphVersion} proteinSymbols={proteinSymbols} depth={neighborDepth} minConfidence={neighborConfidence} novelOnly={neighborNovelOnly} organism={organism} className="w-full h-full" selectedSymbols={selectedSymbols} onSelectSymbols={(syms) => { setSelectedSymbols(syms); setSelectedEdge(undefined); }} selectedEdge={selectedEdge} onSelectEdge={(pair) => { setSelectedEdge(pair); setSelectedSymbols([]); }} />
             </div>
           </div>
         </div>
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { ORGANISMS, DEFAULT_ORGANISM } from "../../../lib/organisms";
+import type { Job } from "../../../lib/jobs";
+
+// TSV columns tsv-to-graph.js understands, with the header it looks for by default
+const COLUMN_FIELDS: Array<{ key: string; label: string; fallback: string; required?: boolean }> = [
+  { key: "source", label: "Protein 1", fallback: "protein1", required: true },
+  { key: "target", label: "Protein 2", fallback: "protein2", required: true },
+  { key: "name1", label: "Name 1", fallback: "name1" },
+  { key: "name2", label: "Name 2", fallback: "name2" },
+  { key: "allDBs", label: "allDBs (provenance)", fallback: "allDBs" },
+  { key: "afmprob", label: "AFMprob", fallback: "AFMprob" },
+  { key: "locality1", label: "Locality 1", fallback: "locality1" },
+  { key: "locality2", label: "Locality 2", fallback: "locality2" },
+];
+
+const POLL_MS = 1000;
+
+// Same loose matching as the script: case and punctuation insensitive, substring allowed
+const norm = (s: string) => s.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+function guessColumn(headers: string[], fallback: string): string {
+  const want = norm(fallback);
+  return headers.find((h) => norm(h) === want) || headers.find((h) => norm(h).includes(want)) || "";
+}
+
+// Header row of a TSV: the first line that is neither empty nor a # comment
+async function readHeaders(file: File): Promise<string[]> {
+  const head = await file.slice(0, 64 * 1024).text();
+  const line = head.split(/\r?\n/).find((l) => l.trim() && !l.startsWith("#"));
+  return line ? line.split("\t").map((h) => h.trim()).filter(Boolean) : [];
+}
+
+const slugify = (s: string) => s.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^[^a-z0-9]+|-+$/g, "");
+
+export default function UploadPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [name, setName] = useState("");
+  const [datasetId, setDatasetId] = useState("");
+  const [idEdited, setIdEdited] = useState(false);
+  const [description, setDescription] = useState("");
+  const [organism, setOrganism] = useState(DEFAULT_ORGANISM);
+  const [minProb, setMinProb] = useState("");
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const activeJob = jobs.find((j) => j.id === activeJobId) || null;
+
+  // Jobs survive page reloads on the server; pick up where we left off
+  useEffect(() => {
+    fetch("/api/jobs", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((body) => {
+        const list: Job[] = body.jobs || [];
+        setJobs(list);
+        const live = list.find((j) => j.status === "queued" || j.status === "running");
+        if (live) setActiveJobId(live.id);
+      })
+      .catch(() => {});
+  }, []);
+
+  // Poll the active job until it finishes
+  useEffect(() => {
+    if (!activeJobId || (activeJob && (activeJob.status === "done" || activeJob.status === "failed"))) return;
+    const t = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/jobs/${activeJobId}`, { cache: "no-store" });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body?.error || `HTTP ${res.status}`);
+        setJobs((prev) => [body.job, ...prev.filter((j) => j.id !== body.job.id)]);
+      } catch (err) {
+        setError(`Lost track of job: ${(err as Error).message}`);
+        setActiveJobId(null);
+      }
+    }, POLL_MS);
+    return () => clearInterval(t);
+  }, [activeJobId, activeJob?.status]);
+
+  async function chooseFile(f: File | undefined) {
+    setError("");
+    setFile(f || null);
+    if (!f) { setHeaders([]); return; }
+    const cols = await readHeaders(f);
+    setHeaders(cols);
+    setMapping(Object.fromEntries(COLUMN_FIELDS.map((c) => [c.key, guessColumn(cols, c.fallback)])));
+    if (!name) {
+      const base = f.name.replace(/\.(tsv|txt)$/i, "");
+      setName(base);
+      if (!idEdited) setDatasetId(slugify(base));
+    }
+  }
+
+  async function submit() {
+    if (!file) return;
+    const missing = COLUMN_FIELDS.filter((c) => c.required && !mapping[c.key]).map((c) => c.label);
+    if (missing.length) { setError(`Choose a column for ${missing.join(" and ")}`); return; }
+    setSubmitting(true);
+    setError("");
+    try {
+      const params = new URLSearchParams({ dataset: datasetId, name, description, organism, file: file.name });
+      if (minProb.trim()) params.set("minProb", minProb.trim());
+      // "none" tells the script the column is absent; no param would make it look for the default header
+      for (const c of COLUMN_FIELDS) if (mapping[c.key] || !c.required) params.set(c.key, mapping[c.key] || "none");
+      const res = await fetch(`/api/jobs?${params}`, { method: "POST", body: file, headers: { "Content-Type": "text/tab-separated-values" } });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error || `Upload failed (${res.status})`);
+      setJobs((prev) => [body.job, ...prev]);
+      setActiveJobId(body.job.id);
+    } catch (err) {
+      setError((err as Error).message || "Upload failed");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500";
+  const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2";
+
+  return (
+    <div className="w-full h-full overflow-auto p-6 space-y-6 bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Build a network from a TSV</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Upload a prediction table; it is converted, laid out with ForceAtlas2, clustered with Louvain and registered as a dataset in the graph viewer.
+        </p>
+        <div>
+          <label className={labelClass}>TSV file</label>
+          <input type="file" accept=".tsv,.txt,text/tab-separated-values" onChange={(e) => chooseFile(e.target.files?.[0])} className="text-sm" />
+          {file && <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">{(file.size / 1e6).toFixed(1)} MB · {headers.length} columns</div>}
+        </div>
+        {headers.length > 0 && (
+          <div>
+            <div className={labelClass}>Column mapping</div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+              {COLUMN_FIELDS.map((c) => (
+                <label key={c.key} className="text-sm">
+                  <span className="block mb-1 text-gray-600 dark:text-gray-300">{c.label}{c.required ? " *" : ""}</span>
+                  <select value={mapping[c.key] || ""} onChange={(e) => setMapping((m) => ({ ...m, [c.key]: e.target.value }))} className={inputClass}>
+                    <option value="">{c.required ? "Choose a column" : "Not present"}</option>
+                    {headers.map((h) => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input type="text" value={name} onChange={(e) => { setName(e.target.value); if (!idEdited) setDatasetId(slugify(e.target.value)); }} className={inputClass} placeholder="AFM v2, prob >= 0.8" />
+          </div>
+          <div>
+            <label className={labelClass}>Dataset ID</label>
+            <input type="text" value={datasetId} onChange={(e) => { setDatasetId(e.target.value); setIdEdited(true); }} className={inputClass} placeholder="afm-v2-080" />
+          </div>
+          <div>
+            <label className={labelClass}>Organism</label>
+            <select value={organism} onChange={(e) => setOrganism(e.target.value)} className={inputClass}>
+              {ORGANISMS.map((o) => <option key={o.code} value={o.code}>{o.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Minimum AFMprob</label>
+            <input type="number" min={0} max={1} step={0.01} value={minProb} onChange={(e) => setMinProb(e.target.value)} className={inputClass} placeholder="keep all rows" />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Description</label>
+          <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="Optional" />
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={submit}
+            disabled={!file || !datasetId || submitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? "Uploading..." : "Upload and build"}
+          </button>
+          {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+        </div>
+      </div>
+
+      {activeJob && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-semibold">{activeJob.datasetId} <span className="font-normal text-gray-500 dark:text-gray-400">from {activeJob.fileName}</span></span>
+            <span className="tabular-nums">{activeJob.status}{activeJob.status === "running" && activeJob.stage ? ` · ${activeJob.stage}` : ""} · {Math.round(activeJob.progress * 100)}%</span>
+          </div>
+          <div className="h-2 w-full rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div className={`h-full ${activeJob.status === "failed" ? "bg-red-500" : "bg-blue-600"}`} style={{ width: `${Math.round(activeJob.progress * 100)}%` }} />
+          </div>
+          {activeJob.status === "done" && (
+            <Link href={`/?ds=${encodeURIComponent(activeJob.datasetId)}`} className="inline-block text-sm text-blue-600 dark:text-blue-400 underline">Open in the graph viewer</Link>
+          )}
+          {activeJob.error && <div className="text-sm text-red-600 dark:text-red-400">{activeJob.error}</div>}
+          {activeJob.log.length > 0 && (
+            <pre className="max-h-48 overflow-auto rounded bg-gray-100 dark:bg-gray-900 p-2 text-xs">{activeJob.log.join("\n")}</pre>
+          )}
+        </div>
+      )}
+
+      {jobs.length > 1 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <h3 className="text-sm font-semibold mb-2">Recent builds</h3>
+          <ul className="text-sm divide-y divide-gray-200 dark:divide-gray-700">
+            {jobs.map((j) => (
+              <li key={j.id} className="py-1 flex justify-between gap-2 cursor-pointer hover:text-blue-600" onClick={() => setActiveJobId(j.id)}>
+                <span className="truncate">{j.datasetId} <span className="text-gray-500 dark:text-gray-400">{j.fileName}</span></span>
+                <span className="shrink-0 tabular-nums">{j.status}{j.status === "running" ? ` ${Math.round(j.progress * 100)}%` : ""}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
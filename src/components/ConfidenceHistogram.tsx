@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import { countInRange, type ConfidenceHistogram as Histogram } from "../../lib/confidenceHistogram";
+import { NOVEL_COLOR } from "../../lib/provenance";
+
+const WIDTH = 280;
+const HEIGHT = 64;
+const KNOWN_COLOR = "#9ca3af";
+// Brushed values snap to the confidence slider's step
+const STEP = 0.01;
+
+const snap = (v: number) => Math.round(Math.max(0, Math.min(1, v)) / STEP) / (1 / STEP);
+
+// AFMprob histogram of the edges passing the other filters, known below and new on top. Dragging
+// across it brushes a [min, max] confidence range; a click without dragging sets only the cutoff
+// (max 1), a double click clears the range.
+export default function ConfidenceHistogram({ histogram, range, onChange }: { histogram: Histogram; range: [number, number]; onChange: (range: [number, number]) => void }) {
+  const svgRef = React.useRef<SVGSVGElement | null>(null);
+  // Range being dragged, shown instead of `range` until the pointer is released
+  const [brush, setBrush] = React.useState<[number, number] | null>(null);
+  const startRef = React.useRef<number | null>(null);
+
+  const valueAt = (clientX: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return snap((clientX - rect.left) / Math.max(1, rect.width));
+  };
+
+  const shown = brush || range;
+  const [lo, hi] = shown;
+  const survivors = countInRange(histogram, lo, hi);
+  // sqrt scale: a few dominant bins would otherwise flatten the rest
+  const maxCount = histogram.bins.reduce((m, b) => Math.max(m, b.known + b.novel), 0);
+  const scale = (c: number) => (maxCount ? (Math.sqrt(c) / Math.sqrt(maxCount)) * HEIGHT : 0);
+  const barWidth = WIDTH / Math.max(1, histogram.bins.length);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-16 cursor-crosshair touch-none select-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          const v = valueAt(e.clientX);
+          startRef.current = v;
+          setBrush([v, v]);
+        }}
+        onPointerMove={(e) => {
+          if (startRef.current === null) return;
+          const v = valueAt(e.clientX);
+          setBrush([Math.min(startRef.current, v), Math.max(startRef.current, v)]);
+        }}
+        onPointerUp={(e) => {
+          if (startRef.current === null) return;
+          const v = valueAt(e.clientX);
+          const start = startRef.current;
+          startRef.current = null;
+          setBrush(null);
+          onChange(Math.abs(v - start) < STEP ? [v, 1] : [Math.min(start, v), Math.max(start, v)]);
+        }}
+        onDoubleClick={() => onChange([0, 1])}
+      >
+        {histogram.bins.map((b, i) => {
+          const inRange = b.x1 > lo && b.x0 <= hi;
+          const total = scale(b.known + b.novel);
+          const novel = b.known + b.novel ? total * (b.novel / (b.known + b.novel)) : 0;
+          return (
+            <g key={i} opacity={inRange ? 1 : 0.3}>
+              <title>{`${b.x0.toFixed(2)}–${b.x1.toFixed(2)}: ${b.known} known, ${b.novel} new`}</title>
+              <rect x={i * barWidth + 0.5} y={HEIGHT - total + novel} width={Math.max(0.5, barWidth - 1)} height={total - novel} fill={KNOWN_COLOR} />
+              <rect x={i * barWidth + 0.5} y={HEIGHT - total} width={Math.max(0.5, barWidth - 1)} height={novel} fill={NOVEL_COLOR} />
+            </g>
+          );
+        })}
+        <rect x={lo * WIDTH} y={0} width={Math.max(1, (hi - lo) * WIDTH)} height={HEIGHT} fill="rgba(255,255,255,0.08)" stroke="rgba(255,255,255,0.6)" strokeWidth={1} vectorEffect="non-scaling-stroke" pointerEvents="none" />
+      </svg>
+      <div className="flex items-center justify-between text-xs text-gray-300">
+        <span className="tabular-nums">{lo.toFixed(2)}–{hi.toFixed(2)}</span>
+        <span className="tabular-nums">{survivors.edges} edges · <span style={{color: NOVEL_COLOR}}>{survivors.novel} new</span></span>
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,25 @@
 
 import React from "react";
 import Graph from "graphology";
+import { downloadBlob, svgToPng } from "../../lib/cyExport";
+import { readQuery, writeQuery, queryNumber, queryFlag, queryList } from "../../lib/urlState";
+import { DEFAULT_ORGANISM, organismByCode, isOrgCode } from "../../lib/organisms";
+import type { DatasetInfo } from "../../lib/datasets";
+import { diffGraphs, DIFF_COLORS, type DiffCounts, type EdgeDiff } from "../../lib/graphDiff";
+import { loadGraph } from "../../lib/graphBinary";
+import { createFilterEngine, minDegreeFilter, confidenceFilter, onlyNovelFilter, provenanceFilter, isNovelEdge, type FilterEngine } from "../../lib/graphFilters";
+import { buildConfidenceHistogram, type ConfidenceHistogram as ConfidenceHistogramData } from "../../lib/confidenceHistogram";
+import { countDatabases, provenanceColor, NOVEL_COLOR, MULTI_DB_COLOR, type DatabaseCount, type ProvenanceRule } from "../../lib/provenance";
+import type { Tile } from "../../lib/graphTiles";
+import type { BBox } from "../../lib/quadtree";
+import { startLiveLayout, defaultLayoutSettings, type LayoutSettings, type LiveLayout } from "../../lib/liveLayout";
+import { kShortestPaths, pathProbability, type FoundPath } from "../../lib/graphPaths";
+import ConfidenceHistogram from "./ConfidenceHistogram";
+import { toGexf, toGraphML, nodesToCsv, edgesToCsv, viewToSvg, type ExportGraph, type ViewNode, type ViewEdge } from "../../lib/graphExport";
 
 type GraphData = {
   nodes: Array<{id: string; label?: string; x: number; y: number; size?: number; degree?: number; community?: number | null; allDBs?: string[]; hasAllDBsNone?: boolean}>;
-  edges: Array<{id: string; source: string; target: string; weight?: number; allDBs?: string; afmprob?: number}>;
+  edges: Array<{id: string; source: string; target: string; weight?: number; allDBs?: string; afmprob?: number; diff?: EdgeDiff; prevAfmprob?: number; prevAllDBs?: string}>;
   adjacency: Record<string, string[]>;
   clusters: Array<{id: string; label?: string; x: number; y: number; size?: number; community: number; count: number}>;
   meta?: {order: number; size: number};
@@ -22,7 +37,45 @@ function throttle<T extends unknown[]>(fn: (...args: T) => void, ms: number) {
   };
 }
 
-export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'default' | 'locality' }) {
+// Binary graph.bin when the run has one (the route falls back to JSON otherwise)
+const graphDataUrl = (datasetId: string, viewMode: 'default' | 'locality') =>
+  `/api/datasets/${encodeURIComponent(datasetId)}/graph?format=bin${viewMode === 'locality' ? '&view=locality' : ''}`;
+
+// Runs at least this large are browsed as viewport tiles (/api/datasets/<id>/tiles) instead of
+// loading the whole graph; `?tiles=1` forces it for smaller runs
+const TILE_NODE_THRESHOLD = 50000;
+// Detail of a tile: roughly one node per this many screen pixels in dense areas
+const TILE_CELL_PX = 24;
+// Extra viewport fraction fetched on each side, so small pans need no new tile
+const TILE_MARGIN = 0.25;
+
+const tileUrl = (datasetId: string, viewMode: 'default' | 'locality', opts: {bbox?: BBox; res?: number; focus?: string}) => {
+  const params = new URLSearchParams();
+  if (viewMode === 'locality') params.set('view', 'locality');
+  if (opts.bbox) params.set('bbox', [opts.bbox.minX, opts.bbox.minY, opts.bbox.maxX, opts.bbox.maxY].map((v) => v.toFixed(4)).join(','));
+  if (opts.res) params.set('res', opts.res.toFixed(6));
+  if (opts.focus) params.set('focus', opts.focus);
+  return `/api/datasets/${encodeURIComponent(datasetId)}/tiles?${params}`;
+};
+
+// Found paths are drawn in this color, over the filters and the hover focus
+const PATH_COLOR = "#e11d48";
+// Paths listed per pair of proteins
+const MAX_PATHS_PER_PAIR = 5;
+
+// Paths between two consecutive proteins of the path finder; `missing` when either is not loaded
+type PathPair = {from: string; to: string; paths: Array<FoundPath & {probability: number}>; missing: boolean};
+
+function adjacencyOf(edges: Array<{source: string; target: string}>): GraphData["adjacency"] {
+  const adjacency: GraphData["adjacency"] = {};
+  for (const e of edges) {
+    (adjacency[e.source] ||= []).push(e.target);
+    (adjacency[e.target] ||= []).push(e.source);
+  }
+  return adjacency;
+}
+
+export default function GraphViewer({ initialViewMode, organism: initialOrganism = DEFAULT_ORGANISM }: { initialViewMode?: 'default' | 'locality'; organism?: string }) {
   const containerRef = React.useRef<HTMLDivElement | null>(null);
   const sigmaRef = React.useRef<any>(null);
   const graphRef = React.useRef<Graph | null>(null);
@@ -45,6 +98,10 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
   const blueAdjacencyRef = React.useRef<Record<string, string[]>>({});
   const nodesBlueCountsRef = React.useRef<Record<string, number>>({});
   const maxBlueCountRef = React.useRef<number>(0);
+  // Degree / only-new / confidence filters over the current graph (lib/graphFilters)
+  const filtersRef = React.useRef<FilterEngine | null>(null);
+  // Re-applies the filters to node/edge visibility, keeping the focus (set once Sigma is up)
+  const refreshVisibilityRef = React.useRef<(() => void) | null>(null);
   const [totals, setTotals] = React.useState<{nodes: number; edges: number; blueEdges: number}>({nodes: 0, edges: 0, blueEdges: 0});
   const [focusedInfo, setFocusedInfo] = React.useState<{id: string; name: string; degree: number; blue: number} | null>(null);
 
@@ -71,12 +128,68 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
   const showOnlyNewRef = React.useRef(showOnlyNew);
   const [confidence, setConfidence] = React.useState(0);
   const confidenceRef = React.useRef(confidence);
+  // Upper end of the AFMprob range, below 1 only when a range was brushed on the histogram
+  const [confidenceMax, setConfidenceMax] = React.useState(1);
+  const confidenceMaxRef = React.useRef(confidenceMax);
+  const [confHistogram, setConfHistogram] = React.useState<ConfidenceHistogramData | null>(null);
   const [minConfidence, setMinConfidence] = React.useState(0);
   const [showAllEdges, setShowAllEdges] = React.useState(false);
   const showAllEdgesRef = React.useRef(showAllEdges);
+  // Provenance panel: databases found in allDBs, which ones edges must / must not come from, and
+  // whether edges are colored by database instead of only marking new ones
+  const [databases, setDatabases] = React.useState<DatabaseCount[]>([]);
+  const dbColorsRef = React.useRef<Record<string, string>>({});
+  const [dbRule, setDbRule] = React.useState<ProvenanceRule>({required: [], excluded: []});
+  const dbRuleRef = React.useRef(dbRule);
+  const [colorByDb, setColorByDb] = React.useState(false);
+  const [exportError, setExportError] = React.useState('');
+  // Path finder: proteins to connect (each to the next), paths listed per pair, and whether path
+  // cost follows AFMprob instead of the hop count. Found paths are highlighted by the Sigma reducers.
+  const [pathEnds, setPathEnds] = React.useState<Array<{id: string; name: string}>>([]);
+  const [pathK, setPathK] = React.useState(1);
+  const [pathWeighted, setPathWeighted] = React.useState(false);
+  const [pathPairs, setPathPairs] = React.useState<PathPair[]>([]);
+  // "<pair>:<path>" of the path clicked in the list; all paths are highlighted when null
+  const [selectedPath, setSelectedPath] = React.useState<string | null>(null);
+  const pathHighlightRef = React.useRef<{nodes: Set<string>; edges: Set<string>}>({nodes: new Set(), edges: new Set()});
+  // Bumped whenever nodes or edges are loaded (full graph or tile), so derived results recompute
+  const [graphVersion, setGraphVersion] = React.useState(0);
+  const colorByDbRef = React.useRef(colorByDb);
   const [geneInfo, setGeneInfo] = React.useState<{symbol?: string; name?: string; summary?: string} | null>(null);
   const [sidebarOpen, setSidebarOpen] = React.useState(true);
   const [viewMode, setViewMode] = React.useState<'default' | 'locality'>(initialViewMode === 'locality' ? 'locality' : 'default');
+  // Prediction runs from /api/datasets; the organism follows the selected run
+  const [datasets, setDatasets] = React.useState<DatasetInfo[]>([]);
+  const [datasetId, setDatasetId] = React.useState<string | null>(null);
+  const [datasetError, setDatasetError] = React.useState('');
+  const dataset = datasets.find((d) => d.id === datasetId);
+  const organism = dataset?.organism || initialOrganism;
+  const organismRef = React.useRef(organism);
+  organismRef.current = organism;
+  // Comparison mode: edges of the selected run are diffed against `compareId` (the base run)
+  const [compareId, setCompareId] = React.useState<string | null>(null);
+  const [diffCounts, setDiffCounts] = React.useState<DiffCounts | null>(null);
+  const [diffOnly, setDiffOnly] = React.useState(false);
+  const diffOnlyRef = React.useRef(diffOnly);
+  const nodesDiffSetRef = React.useRef<Set<string>>(new Set());
+  // In-browser ForceAtlas2 on the filtered subgraph; positions from the data file are kept in
+  // layoutOriginRef so a refined layout can be thrown away again
+  const liveLayoutRef = React.useRef<LiveLayout | null>(null);
+  const layoutOriginRef = React.useRef<Record<string, {x: number; y: number}> | null>(null);
+  const [layoutSettings, setLayoutSettings] = React.useState<LayoutSettings>(() => defaultLayoutSettings(0));
+  // Download progress of the graph file(s); null once loaded
+  const [loadProgress, setLoadProgress] = React.useState<{loaded: number; total: number | null} | null>(null);
+  const [layoutInfo, setLayoutInfo] = React.useState<{nodes: number; edges: number; running: boolean} | null>(null);
+  // Tiled mode for huge runs: only the nodes in (and around) the viewport are in the graph
+  const [forceTiles, setForceTiles] = React.useState(false);
+  const tiled = forceTiles || (dataset?.stats?.nodes ?? 0) >= TILE_NODE_THRESHOLD;
+  const [tileInfo, setTileInfo] = React.useState<{total: {nodes: number; edges: number}; truncated: boolean} | null>(null);
+  const tileBoundsRef = React.useRef<BBox | null>(null);
+  const tileSeqRef = React.useRef(0);
+  const tileTimerRef = React.useRef<number | null>(null);
+  // Search match picked before it was materialized; focused once a tile brings it in
+  const pendingFocusRef = React.useRef<string | null>(null);
+  const searchPositionsRef = React.useRef<Record<string, {x: number; y: number}>>({});
   const geneAbortRef = React.useRef<AbortController | null>(null);
   const geneTimerRef = React.useRef<number | null>(null);
   const geneCacheRef = React.useRef<Record<string, {symbol?: string; name?: string; summary?: string; t: number}>>({});
@@ -86,8 +199,86 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
   const groupOutlineLayerRef = React.useRef<HTMLDivElement | null>(null);
   const groupOutlineElsRef = React.useRef<Record<string, HTMLDivElement>>({});
 
+  // Shareable view state (?ds=&cmp=&diff=1&focus=&q=&deg=&conf=&new=1&all=1&view=locality&cam=x,y,ratio).
+  // Filters are restored before the first data load; focus/camera once Sigma is up.
+  // `org=mmu` without `ds` picks the newest dataset of that organism.
+  const pendingUrlViewRef = React.useRef<{focus?: string; cam?: {x: number; y: number; ratio: number}; ds?: string; cmp?: string; org?: string}>({});
+  const skipFirstUrlWriteRef = React.useRef(false);
+  const camWriteTimerRef = React.useRef<number | null>(null);
+  React.useLayoutEffect(() => {
+    const q = readQuery();
+    const deg = queryNumber(q, 'deg');
+    if (deg !== undefined) { setDegreeThreshold(deg); degreeThresholdRef.current = deg; }
+    const conf = queryNumber(q, 'conf');
+    if (conf !== undefined) { setConfidence(conf); confidenceRef.current = conf; }
+    const confMax = queryNumber(q, 'confmax');
+    if (confMax !== undefined) { setConfidenceMax(confMax); confidenceMaxRef.current = confMax; }
+    const onlyNew = queryFlag(q, 'new');
+    if (onlyNew !== undefined) { setShowOnlyNew(onlyNew); showOnlyNewRef.current = onlyNew; }
+    const all = queryFlag(q, 'all');
+    if (all !== undefined) { setShowAllEdges(all); showAllEdgesRef.current = all; }
+    const dbs = queryList(q, 'db');
+    if (dbs.length) {
+      const rule = {required: dbs.filter((d) => d.startsWith('+')).map((d) => d.slice(1)), excluded: dbs.filter((d) => d.startsWith('-')).map((d) => d.slice(1))};
+      setDbRule(rule); dbRuleRef.current = rule;
+    }
+    const dbColor = queryFlag(q, 'dbcolor');
+    if (dbColor !== undefined) { setColorByDb(dbColor); colorByDbRef.current = dbColor; }
+    const ends = queryList(q, 'path');
+    if (ends.length) setPathEnds(ends.map((id) => ({id, name: id})));
+    const k = queryNumber(q, 'pathk');
+    if (k !== undefined) setPathK(Math.max(1, Math.min(MAX_PATHS_PER_PAIR, Math.round(k))));
+    const weighted = queryFlag(q, 'pathw');
+    if (weighted !== undefined) setPathWeighted(weighted);
+    const onlyDiff = queryFlag(q, 'diff');
+    if (onlyDiff !== undefined) { setDiffOnly(onlyDiff); diffOnlyRef.current = onlyDiff; }
+    const search = q.get('q');
+    if (search) setSearchQuery(search);
+    const view = q.get('view');
+    if (view === 'locality' || view === 'default') setViewMode(view);
+    if (queryFlag(q, 'tiles')) setForceTiles(true);
+    const org = (q.get('org') || '').toLowerCase();
+    const cam = (q.get('cam') || '').split(',').map(Number);
+    pendingUrlViewRef.current = {
+      focus: q.get('focus') || undefined,
+      cam: cam.length === 3 && cam.every(Number.isFinite) && cam[2] > 0 ? {x: cam[0], y: cam[1], ratio: cam[2]} : undefined,
+      ds: q.get('ds') || undefined,
+      cmp: q.get('cmp') || undefined,
+      org: isOrgCode(org) ? org : undefined,
+    };
+    // The first URL write would run with the pre-restore state and wipe these params
+    skipFirstUrlWriteRef.current = true;
+  }, []);
+
+  // Load the dataset registry, then pick the run named in the URL, else the newest run of the
+  // preferred organism, else the newest run of any organism
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/datasets', {cache: 'no-store'});
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body?.error || `HTTP ${res.status}`);
+        const list: DatasetInfo[] = (body.datasets || []).filter((d: DatasetInfo) => d.views.length);
+        if (cancelled) return;
+        setDatasets(list);
+        const {ds, cmp, org} = pendingUrlViewRef.current;
+        const viewable = list.filter((d) => d.views.includes(initialViewMode === 'locality' ? 'locality' : 'default'));
+        const pick = list.find((d) => d.id === ds) || viewable.find((d) => d.organism === (org || initialOrganism)) || viewable[0] || list[0];
+        if (pick) {
+          setDatasetId(pick.id);
+          if (cmp && cmp !== pick.id && list.some((d) => d.id === cmp)) setCompareId(cmp);
+        } else setDatasetError('No datasets found. Generate one with scripts/tsv-to-graph.js --dataset <id>.');
+      } catch (e) {
+        if (!cancelled) setDatasetError(`Could not load datasets: ${(e as Error).message}`);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
   function normalizeGeneKey(q: string) {
-    return (q || '').trim().toLowerCase();
+    const key = (q || '').trim().toLowerCase();
+    return organismRef.current === DEFAULT_ORGANISM ? key : `${organismRef.current}:${key}`;
   }
 
   function getGeneFromCache(q: string) {
@@ -123,8 +314,9 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
       const q = encodeURIComponent(query);
       const cached = getGeneFromCache(query);
       if (cached) { setGeneInfo(cached); return; }
-      // Try MyGene.info first (human)
-      const url = `https://mygene.info/v3/query?q=${q}&species=human&fields=symbol,name,summary&size=5`;
+      // Try MyGene.info first; both services take the NCBI taxonomy id
+      const taxId = organismByCode(organismRef.current)?.taxId ?? 9606;
+      const url = `https://mygene.info/v3/query?q=${q}&species=${taxId}&fields=symbol,name,summary&size=5`;
       const res = await fetch(url, {signal: ac.signal});
       if (!res.ok) throw new Error(`mygene ${res.status}`);
       const data = await res.json();
@@ -144,7 +336,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
         return;
       }
       // Fallback: Uniprot function comment (simple)
-      const url2 = `https://rest.uniprot.org/uniprotkb/search?query=gene:${q}+AND+organism_id:9606&fields=comment(FUNCTION),genes,organism_name&format=json&size=1`;
+      const url2 = `https://rest.uniprot.org/uniprotkb/search?query=gene:${q}+AND+organism_id:${taxId}&fields=comment(FUNCTION),genes,organism_name&format=json&size=1`;
       const r2 = await fetch(url2, {signal: ac.signal});
       if (r2.ok) {
         const j = await r2.json();
@@ -163,258 +355,164 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
     }
   }
 
-  function recomputeFocusedInfoImmediate(nodeId: string) {
-    const g = graphRef.current;
-    if (!g) return;
-    const thr = degreeThresholdRef.current;
-    const onlyNew = showOnlyNewRef.current;
-    const conf = confidence;
-    let degF = 0, blueF = 0;
-    g.forEachEdge((e, attrs, sId, tId) => {
-      if (sId !== nodeId && tId !== nodeId) return;
-      const other = sId === nodeId ? tId : sId;
-      const otherDeg = (g.getNodeAttribute(other, 'degree') as number) || 0;
-      const hideByDeg = thr > 0 && otherDeg < thr;
-      const hideByNewNode = onlyNew && !nodesBlueSetRef.current.has(other);
-      if (hideByDeg || hideByNewNode) return;
-      const ap = (attrs as any)?.afmprob;
-      if (typeof ap === 'number' && ap < conf) return;
-      const adb = (attrs as any)?.allDBs || '';
-      const isNone = String(adb).trim().toLowerCase() === 'none';
-      if (onlyNew && !isNone) return;
-      degF++;
-      if (isNone) blueF++;
-    });
-    let nm = (g.getNodeAttribute(nodeId, 'name') as string) || nodeId;
-    if (!nm || !nm.trim()) {
-      const found = nameIndexRef.current.find((e) => e.id === nodeId);
-      nm = (found && found.name) || (g.getNodeAttribute(nodeId, 'label') as string) || nodeId;
-    }
-    setFocusedInfo({id: nodeId, name: nm, degree: degF, blue: blueF});
+  function syncFilters() {
+    const engine = filtersRef.current;
+    if (!engine) return;
+    engine.setFilter(minDegreeFilter(degreeThresholdRef.current));
+    engine.setFilter(onlyNovelFilter(showOnlyNewRef.current, () => nodesBlueSetRef.current));
+    engine.setFilter(confidenceFilter(confidenceRef.current, confidenceMaxRef.current));
+    engine.setFilter(provenanceFilter(dbRuleRef.current));
   }
 
-  function recomputeTotalsImmediate() {
-    const g = graphRef.current;
-    if (!g) return;
-    const thr = degreeThresholdRef.current;
-    const onlyNew = showOnlyNewRef.current;
-    const conf = confidence;
-    const visibleNodes = new Set<string>();
-    let nodesCount = 0;
-    g.forEachNode((n, attrs) => {
-      if ((attrs as any)?.isCluster) return;
-      const deg = (attrs as any)?.degree || 0;
-      const hideByDeg = thr > 0 && deg < thr;
-      const hideByNew = onlyNew && !nodesBlueSetRef.current.has(n);
-      if (!(hideByDeg || hideByNew)) { nodesCount++; visibleNodes.add(n); }
-    });
-    let edgesCount = 0, blueCount = 0;
+  // Color of a drawn edge: by database when that is on, else blue for new interactions only
+  function edgeColor(attrs: Record<string, any>): string | undefined {
+    if (colorByDbRef.current) return provenanceColor(attrs.allDBs, dbColorsRef.current);
+    return isNovelEdge(attrs) ? NOVEL_COLOR : undefined;
+  }
+
+  // Databases of the loaded edges (those only in a comparison's base run excluded), for the
+  // provenance panel
+  function indexEdgeSummaries(g: Graph) {
+    const edges: Array<{allDBs?: string}> = [];
+    g.forEachEdge((_e, attrs) => { if (attrs.diff !== 'removed') edges.push(attrs); });
+    const list = countDatabases(edges);
+    dbColorsRef.current = Object.fromEntries(list.map((d) => [d.key, d.color]));
+    setDatabases(list);
+  }
+
+  // Edges are drawn when zoomed in, or always with show-all, only-differences or a highlighted path
+  function shouldRenderEdges(ratio: number) {
+    return showAllEdgesRef.current || (diffOnlyRef.current && !!compareId) || pathHighlightRef.current.edges.size > 0 || (showEdgesRef.current && ratio < 1.5);
+  }
+
+  // Single entry point after any filter change: visibility, totals and focused stats
+  function applyFilters() {
+    const engine = filtersRef.current;
+    if (!engine) return;
+    syncFilters();
+    setTotals(engine.totals());
+    refreshVisibilityRef.current?.();
+  }
+
+  // Graph attributes of a node/edge from the data file (or a tile)
+  function nodeAttributes(n: GraphData["nodes"][number]) {
+    return {
+      // Store original label as name; keep label empty by default for LOD
+      name: n.label || n.id,
+      label: "",
+      x: n.x,
+      y: n.y,
+      size: n.size ?? 1,
+      baseSize: n.size ?? 1,
+      community: n.community ?? -1,
+      degree: n.degree ?? 0,
+    };
+  }
+  function edgeAttributes(e: GraphData["edges"][number]) {
+    return {weight: e.weight ?? 1, allDBs: e.allDBs || '', afmprob: e.afmprob, diff: e.diff, prevAfmprob: e.prevAfmprob, prevAllDBs: e.prevAllDBs};
+  }
+
+  // Nodes involved in 'none' (new) edges and their counts for the heatmap
+  function indexNovelEdges(g: Graph) {
+    const nodesBlue = new Set<string>();
+    const counts: Record<string, number> = {};
     g.forEachEdge((e, attrs, sId, tId) => {
-      if (!visibleNodes.has(sId) || !visibleNodes.has(tId)) return;
-      const ap = (attrs as any)?.afmprob;
-      if (typeof ap === 'number' && ap < conf) return;
-      const adb = (attrs as any)?.allDBs || '';
-      const isNone = String(adb).trim().toLowerCase() === 'none';
-      if (onlyNew && !isNone) return;
-      edgesCount++;
-      if (isNone) blueCount++;
+      if (isNovelEdge(attrs)) {
+        nodesBlue.add(sId); nodesBlue.add(tId);
+        counts[sId] = (counts[sId] || 0) + 1;
+        counts[tId] = (counts[tId] || 0) + 1;
+      }
     });
-    setTotals({nodes: nodesCount, edges: edgesCount, blueEdges: blueCount});
+    nodesBlueSetRef.current = nodesBlue;
+    nodesBlueCountsRef.current = counts;
+    maxBlueCountRef.current = Object.values(counts).reduce((m, v) => Math.max(m, v), 0);
   }
 
   React.useEffect(() => {
     showEdgesRef.current = showEdges;
   }, [showEdges]);
-  React.useEffect(() => { showAllEdgesRef.current = showAllEdges; }, [showAllEdges]);
-  // When toggling Show all edges in non-focused view, update edge hidden flags immediately
   React.useEffect(() => {
-    const g = graphRef.current;
+    degreeThresholdRef.current = degreeThreshold;
+    confidenceRef.current = confidence;
+    confidenceMaxRef.current = confidenceMax;
+    showOnlyNewRef.current = showOnlyNew;
+    showAllEdgesRef.current = showAllEdges;
+    dbRuleRef.current = dbRule;
+    colorByDbRef.current = colorByDb;
+    applyFilters();
     const s = sigmaRef.current as any;
-    if (!g || !s) return;
-    const focused = focusedNodeRef.current;
-    if (focused) return; // only applies in non-focused view
-    const onlyNew = showOnlyNewRef.current;
-    const conf = confidence;
-    g.forEachEdge((e, attrs) => {
-      const adb = (attrs as any)?.allDBs || '';
-      const isNone = String(adb).trim().toLowerCase() === 'none';
-      const ap = (attrs as any)?.afmprob;
-      const hideByNew = onlyNew && !isNone;
-      const hideByConf = typeof ap === 'number' ? ap < conf : false;
-      const shouldShow = showAllEdges && !(hideByNew || hideByConf);
-      g.setEdgeAttribute(e, 'hidden', !shouldShow);
-      if (shouldShow && isNone) g.setEdgeAttribute(e, 'color', '#3b82f6');
-      else if (!shouldShow) g.setEdgeAttribute(e, 'color', undefined);
-    });
-    try { (s as any).setSetting('renderEdges', showAllEdges || (showEdgesRef.current && (s.getCamera().getState().ratio < 1.5))); } catch {}
+    if (!s) return;
+    try { s.setSetting('renderEdges', shouldRenderEdges(s.getCamera().getState().ratio)); } catch {}
     s.refresh();
-  }, [showAllEdges, confidence, showOnlyNew]);
+  }, [degreeThreshold, confidence, confidenceMax, showOnlyNew, showAllEdges, dbRule, colorByDb]);
+
+  // Only-differences is applied by the Sigma reducers, so toggling it just needs a redraw
+  React.useEffect(() => {
+    diffOnlyRef.current = diffOnly;
+    const s = sigmaRef.current as any;
+    if (!s) return;
+    try { s.setSetting('renderEdges', shouldRenderEdges(s.getCamera().getState().ratio)); } catch {}
+    s.refresh();
+  }, [diffOnly]);
+
+  // Connect each picked protein to the next over the edges passing the filters (the effect above
+  // has synced them). Edges only in a comparison's base run are not part of the current graph.
   React.useEffect(() => {
-    degreeThresholdRef.current = degreeThreshold;
-    // Recompute totals and refresh based on new degree filter
     const g = graphRef.current;
-    if (g) {
-      // apply node visibility per degree (existing behavior)
-      g.forEachNode((n) => {
-        const deg = (g.getNodeAttribute(n, 'degree') as number) || 0;
-        const hideByDeg = degreeThresholdRef.current > 0 && deg < degreeThresholdRef.current;
-        const hideByNew = showOnlyNewRef.current && !nodesBlueSetRef.current.has(n);
-        g.setNodeAttribute(n, 'hidden', hideByDeg || hideByNew);
-      });
-      // recompute totals
-      const thr = degreeThresholdRef.current;
-      const onlyNew = showOnlyNewRef.current;
-      const visibleNodes = new Set<string>();
-      let nodesCount = 0;
-      g.forEachNode((n, attrs) => {
-        if ((attrs as any)?.isCluster) return;
-        const deg = (attrs as any)?.degree || 0;
-        const hideByDeg = thr > 0 && deg < thr;
-        const hideByNew = onlyNew && !nodesBlueSetRef.current.has(n);
-        if (!(hideByDeg || hideByNew)) { nodesCount++; visibleNodes.add(n); }
-      });
-      let edgesCount = 0, blueCount = 0;
-      g.forEachEdge((e, attrs, sId, tId) => {
-        if (!visibleNodes.has(sId) || !visibleNodes.has(tId)) return;
-        const adb = (attrs as any)?.allDBs || '';
-        const isNone = String(adb).trim().toLowerCase() === 'none';
-        if (onlyNew && !isNone) return;
-        edgesCount++;
-        if (isNone) blueCount++;
-      });
-      setTotals({nodes: nodesCount, edges: edgesCount, blueEdges: blueCount});
-      sigmaRef.current?.refresh();
-      // update focused info if present
-      if (focusedNodeRef.current) {
-        const node = focusedNodeRef.current;
-        let degF = 0, blueF = 0;
-        g.forEachEdge((e, attrs, sId, tId) => {
-          if (sId !== node && tId !== node) return;
-          const other = sId === node ? tId : sId;
-          if (!visibleNodes.has(other)) return;
-          const adb = (attrs as any)?.allDBs || '';
-          const isNone = String(adb).trim().toLowerCase() === 'none';
-          if (onlyNew && !isNone) return;
-          degF++;
-          if (isNone) blueF++;
-        });
-        setFocusedInfo((prev) => prev ? {...prev, degree: degF, blue: blueF} : prev);
-      }
+    const engine = filtersRef.current;
+    if (!g || !engine || pathEnds.length < 2) { setPathPairs([]); setSelectedPath(null); return; }
+    const edgeFilter = (e: string) => g.getEdgeAttribute(e, 'diff') !== 'removed' && engine.edgeVisible(e);
+    const pairs: PathPair[] = [];
+    for (let i = 1; i < pathEnds.length; i++) {
+      const from = pathEnds[i - 1].id, to = pathEnds[i].id;
+      const missing = !g.hasNode(from) || !g.hasNode(to);
+      const paths = missing ? [] : kShortestPaths(g, from, to, pathK, {edgeFilter, weighted: pathWeighted});
+      pairs.push({from, to, missing, paths: paths.map((p) => ({...p, probability: pathProbability(g, p)}))});
     }
-  }, [degreeThreshold]);
+    setPathPairs(pairs);
+    // Keep the selection across recomputes (a tile loaded, a filter moved) while it still exists
+    setSelectedPath((prev) => {
+      const [i, j] = (prev || '').split(':').map(Number);
+      return prev && pairs[i]?.paths[j] ? prev : null;
+    });
+  }, [pathEnds, pathK, pathWeighted, graphVersion, degreeThreshold, confidence, confidenceMax, showOnlyNew, dbRule]);
+
+  // Highlight the selected path, or every found path, plus the picked proteins themselves
   React.useEffect(() => {
-    const g = graphRef.current;
+    const nodes = new Set(pathEnds.map((e) => e.id));
+    const edges = new Set<string>();
+    pathPairs.forEach((pair, i) => pair.paths.forEach((p, j) => {
+      if (selectedPath && selectedPath !== `${i}:${j}`) return;
+      for (const n of p.nodes) nodes.add(n);
+      for (const e of p.edges) edges.add(e);
+    }));
+    pathHighlightRef.current = {nodes, edges};
     const s = sigmaRef.current as any;
-    if (!g || !s) return;
-    const thr = degreeThresholdRef.current;
-    const onlyNew = showOnlyNewRef.current;
-    const conf = confidence;
-    const visibleNodes = new Set<string>();
-    g.forEachNode((n, attrs) => {
-      if ((attrs as any)?.isCluster) return;
-      const deg = (attrs as any)?.degree || 0;
-      const hideByDeg = thr > 0 && deg < thr;
-      const hideByNew = onlyNew && !nodesBlueSetRef.current.has(n);
-      if (!(hideByDeg || hideByNew)) visibleNodes.add(n);
-    });
-    // If focused, rebuild neighbor set with filters, update edges/nodes; suppress camera anim
-    const focused = focusedNodeRef.current;
-    if (focused) {
-      const neighbors = new Set<string>();
-      neighbors.add(focused);
-      g.forEachEdge((e, attrs, sId, tId) => {
-        const isEnd = sId === focused || tId === focused;
-        if (!isEnd) return;
-        const other = sId === focused ? tId : sId;
-        if (!visibleNodes.has(other)) return;
-        const adb = (attrs as any)?.allDBs || '';
-        const isNone = String(adb).trim().toLowerCase() === 'none';
-        if (onlyNew && !isNone) return;
-        const ap = (attrs as any)?.afmprob;
-        if (typeof ap === 'number' && ap < conf) return;
-        neighbors.add(sId); neighbors.add(tId);
-      });
-      // update node hidden flags and edge visibility
-      g.forEachNode((n, attrs) => {
-        if ((attrs as any)?.isCluster) return;
-        const isNeighbor = neighbors.has(n);
-        const hideByDeg = thr > 0 && ((attrs as any)?.degree || 0) < thr;
-        const hideByNew = onlyNew && !nodesBlueSetRef.current.has(n);
-        const hidden = !isNeighbor || hideByDeg || hideByNew;
-        g.setNodeAttribute(n, 'hidden', hidden);
-      });
-      g.forEachEdge((e, attrs, sId, tId) => {
-        const vis = neighbors.has(sId) && neighbors.has(tId);
-        const ap = (attrs as any)?.afmprob;
-        const adb = (attrs as any)?.allDBs || '';
-        const isNone = String(adb).trim().toLowerCase() === 'none';
-        const hideByNewEdge = onlyNew && !isNone;
-        const hideByConf = typeof ap === 'number' && ap < conf;
-        g.setEdgeAttribute(e, 'hidden', !vis || hideByNewEdge || hideByConf);
-      });
-      // No camera movement; we've already updated visibility
-    }
-    // Update totals and focused stats (already handled by existing effect)
+    if (!s) return;
+    try { s.setSetting('renderEdges', shouldRenderEdges(s.getCamera().getState().ratio)); } catch {}
     s.refresh();
-  }, [confidence]);
+  }, [pathPairs, selectedPath, pathEnds]);
 
+  // AFMprob histogram of the edges passing every filter but confidence, so the edges it counts
+  // inside the brushed range are the ones the totals show. The filter effect above has synced them.
   React.useEffect(() => {
-    showOnlyNewRef.current = showOnlyNew;
-    // Re-apply base visibility when toggled
     const g = graphRef.current;
-    if (!g) return;
-    g.forEachNode((n, attrs) => {
-      if (attrs.isCluster) return;
-      const deg = attrs.degree || 0;
-      const hideByDeg = degreeThresholdRef.current > 0 && deg < degreeThresholdRef.current;
-      const hideByNew = showOnlyNewRef.current && !nodesBlueSetRef.current.has(n);
-      g.setNodeAttribute(n, 'hidden', hideByDeg || hideByNew);
-    });
-    // recompute totals like in degree/confidence effects
-    const thr = degreeThresholdRef.current;
-    const onlyNew = showOnlyNewRef.current;
-    const conf = confidenceRef.current;
-    const visibleNodes = new Set<string>();
-    let nodesCount = 0;
-    g.forEachNode((n, attrs) => {
-      if ((attrs as any)?.isCluster) return;
-      const deg = (attrs as any)?.degree || 0;
-      const hideByDeg = thr > 0 && deg < thr;
-      const hideByNew = onlyNew && !nodesBlueSetRef.current.has(n);
-      if (!(hideByDeg || hideByNew)) { nodesCount++; visibleNodes.add(n); }
-    });
-    let edgesCount = 0, blueCount = 0;
-    g.forEachEdge((e, attrs, sId, tId) => {
-      if (!visibleNodes.has(sId) || !visibleNodes.has(tId)) return;
-      const ap = (attrs as any)?.afmprob;
-      if (typeof ap === 'number' && ap < conf) return;
-      const adb = (attrs as any)?.allDBs || '';
-      const isNone = String(adb).trim().toLowerCase() === 'none';
-      if (onlyNew && !isNone) return;
-      edgesCount++;
-      if (isNone) blueCount++;
-    });
-    setTotals({nodes: nodesCount, edges: edgesCount, blueEdges: blueCount});
-    // If focused, recompute focused info numbers to ensure info box updates
-    if (focusedNodeRef.current) {
-      const node = focusedNodeRef.current;
-      let degF = 0, blueF = 0;
-      g.forEachEdge((e, attrs, sId, tId) => {
-        if (sId !== node && tId !== node) return;
-        const other = sId === node ? tId : sId;
-        if (!visibleNodes.has(other)) return;
-        const ap = (attrs as any)?.afmprob;
-        if (typeof ap === 'number' && ap < conf) return;
-        const adb = (attrs as any)?.allDBs || '';
-        const isNone = String(adb).trim().toLowerCase() === 'none';
-        if (onlyNew && !isNone) return;
-        degF++;
-        if (isNone) blueF++;
-      });
-      setFocusedInfo((prev) => prev ? {...prev, degree: degF, blue: blueF} : prev);
-    }
-    sigmaRef.current?.refresh();
-  }, [showOnlyNew]);
+    const engine = filtersRef.current;
+    if (!g || !engine) { setConfHistogram(null); return; }
+    const edges: Array<{allDBs?: string; afmprob?: number}> = [];
+    g.forEachEdge((e, attrs) => { if (attrs.diff !== 'removed' && engine.edgeVisible(e, 'confidence')) edges.push(attrs); });
+    setConfHistogram(buildConfidenceHistogram(edges));
+  }, [graphVersion, degreeThreshold, showOnlyNew, dbRule]);
+
+  function addPathEnd(id: string, name: string) {
+    setPathEnds((prev) => (prev.some((e) => e.id === id) ? prev : [...prev, {id, name}]));
+  }
+
+  // Name of a path finder protein: from the graph when loaded, else as picked (or the id, from the URL)
+  function pathNodeName(id: string, fallback = id) {
+    const g = graphRef.current;
+    return g && g.hasNode(id) ? String(g.getNodeAttribute(id, 'name') || id) : fallback;
+  }
 
   React.useEffect(() => {
     let disposed = false;
@@ -517,9 +615,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
               const srcS = worldToScreen(src);
               for (const nb of adjacencyRef.current[hovered] || []) {
                 const t = nodes[idToIndexRef.current[nb]];
-                if (!t) continue;
-                const thr = degreeThresholdRef.current;
-                if (thr > 0 && t.degree < thr) continue;
+                if (!t || !filtersRef.current?.nodeVisible(t.id)) continue;
                 const tS = worldToScreen(t);
                 ctx2.beginPath();
                 ctx2.moveTo(srcS.x, srcS.y);
@@ -529,8 +625,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             }
           }
           for (const n of nodes) {
-            const thr = degreeThresholdRef.current;
-            if (thr > 0 && n.degree < thr) continue;
+            if (!filtersRef.current?.nodeVisible(n.id)) continue;
             const {x, y} = worldToScreen(n);
             const r = Math.max(1, Math.sqrt(Math.max(1, n.degree)));
             const isNeighbor = hovered ? (n.id === hovered || (adjacencyRef.current[hovered] || []).includes(n.id)) : true;
@@ -645,15 +740,57 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
       // Give the layout one more tick to settle before reading sizes
       await new Promise((r) => setTimeout(r, 32));
       if (disposed) return;
-      if (!containerRef.current) return;
-      const res = await fetch(viewMode === 'locality' ? "/graph_locality.json" : "/graph.json", {cache: "no-store"});
-      const data: GraphData = await res.json();
+      if (!containerRef.current || !datasetId) return;
+      setLoadProgress({loaded: 0, total: null});
+      const onProgress = (loaded: number, total: number | null) => { if (!disposed) setLoadProgress({loaded, total}); };
+      tileBoundsRef.current = null;
+      setTileInfo(null);
+      // Tiled: start from the highest-degree nodes of the whole run (plus the shared focus node)
+      const res = await fetch(tiled
+        ? tileUrl(datasetId, viewMode, {focus: pendingUrlViewRef.current.focus})
+        : graphDataUrl(datasetId, viewMode), {cache: "no-store"});
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        if (!disposed) { setDatasetError(body?.error || `Could not load dataset ${datasetId} (HTTP ${res.status})`); setLoadProgress(null); }
+        return;
+      }
+      let data: GraphData;
+      try {
+        if (tiled) {
+          const tile: Tile = await res.json();
+          data = {...tile, adjacency: adjacencyOf(tile.edges)};
+          tileBoundsRef.current = tile.bounds;
+          if (!disposed) setTileInfo({total: tile.total, truncated: tile.truncated});
+        } else {
+          data = await loadGraph(res, onProgress);
+        }
+      } catch (e) {
+        if (!disposed) { setDatasetError(`Could not read dataset ${datasetId}: ${(e as Error).message}`); setLoadProgress(null); }
+        return;
+      }
       if (disposed) return;
+      setDatasetError('');
+      setDiffCounts(null);
+      nodesDiffSetRef.current = new Set();
+      // Comparison needs both runs in full, so it is not available for tiled runs
+      if (compareId && !tiled) {
+        const baseRes = await fetch(graphDataUrl(compareId, viewMode), {cache: "no-store"});
+        if (disposed) return;
+        if (baseRes.ok) {
+          const diffed = diffGraphs(data, await loadGraph(baseRes, onProgress) as GraphData);
+          if (disposed) return;
+          data = diffed;
+          setDiffCounts(diffed.counts);
+          const touched = new Set<string>();
+          for (const e of diffed.edges) if (e.diff) { touched.add(e.source); touched.add(e.target); }
+          nodesDiffSetRef.current = touched;
+        } else {
+          const body = await baseRes.json().catch(() => ({}));
+          setDatasetError(body?.error || `Could not load dataset ${compareId} for comparison (HTTP ${baseRes.status})`);
+        }
+      }
 
       adjacencyRef.current = data.adjacency;
-      // Compute totals for info box
-      const blueEdgesCount = (data.edges || []).reduce((acc, e) => acc + ((e.allDBs || '').trim().toLowerCase() === 'none' ? 1 : 0), 0);
-      setTotals({nodes: (data.nodes || []).length, edges: (data.edges || []).length, blueEdges: blueEdgesCount});
 
       // Compute min confidence (AFMprob) from dataset and initialize slider/state
       let minProb = Infinity;
@@ -673,19 +810,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
 
       const g = new Graph();
       // Add nodes
-      for (const n of data.nodes) {
-        g.addNode(n.id, {
-          // Store original label as name; keep label empty by default for LOD
-          name: n.label || n.id,
-          label: "",
-          x: n.x,
-          y: n.y,
-          size: n.size ?? 1,
-          baseSize: n.size ?? 1,
-          community: n.community ?? -1,
-          degree: n.degree ?? 0,
-        });
-      }
+      for (const n of data.nodes) g.addNode(n.id, nodeAttributes(n));
       // Build simple name index for search
       nameIndexRef.current = data.nodes.map((n) => {
         const nm = (n.label || n.id) + "";
@@ -711,50 +836,31 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
       // Add edges (we will toggle their rendering later)
       for (const e of data.edges) {
         const id = e.id || `${e.source}-${e.target}`;
-        if (!g.hasEdge(id)) g.addEdgeWithKey(id, e.source, e.target, {weight: e.weight ?? 1, allDBs: e.allDBs || '', afmprob: e.afmprob});
+        if (!g.hasEdge(id)) g.addEdgeWithKey(id, e.source, e.target, edgeAttributes(e));
         edgeAllDBsRef.current[id] = e.allDBs || '';
       }
       // Hide all edges by default; they'll appear on hover
-      g.forEachEdge((edge, attrs) => {
-        const adb = (attrs as any).allDBs || '';
-        const isNone = String(adb).trim().toLowerCase() === 'none';
-        const hideByNew = showOnlyNewRef.current && !isNone;
-        const ap = (attrs as any).afmprob;
-        const hideByConf = typeof ap === 'number' ? ap < confidenceRef.current : false;
-        g.setEdgeAttribute(edge, "hidden", true || hideByNew);
-        if (hideByConf) g.setEdgeAttribute(edge, 'hidden', true);
-      });
-      // Precompute nodes involved in 'none' edges and counts for heatmap
-      const nodesBlue = new Set<string>();
-      const counts: Record<string, number> = {};
-      g.forEachEdge((e, attrs, sId, tId) => {
-        const adb = (attrs as any).allDBs || '';
-        if (String(adb).trim().toLowerCase() === 'none') {
-          nodesBlue.add(sId); nodesBlue.add(tId);
-          counts[sId] = (counts[sId] || 0) + 1;
-          counts[tId] = (counts[tId] || 0) + 1;
-        }
-      });
-      nodesBlueSetRef.current = nodesBlue;
-      nodesBlueCountsRef.current = counts;
-      maxBlueCountRef.current = Object.values(counts).reduce((m, v) => Math.max(m, v), 0);
-      // Set initial node colors according to heat map
-      g.forEachNode((n) => {
-        if (nodesBlue.has(n)) {
-          const c = counts[n] || 0;
+      g.forEachEdge((edge) => g.setEdgeAttribute(edge, "hidden", true));
+      indexNovelEdges(g);
+      indexEdgeSummaries(g);
+      filtersRef.current = createFilterEngine(g);
+      syncFilters();
+      setTotals(filtersRef.current.totals());
+      // Set initial node colors according to heat map, and the initial filter visibility
+      g.forEachNode((n, attrs) => {
+        if (nodesBlueSetRef.current.has(n)) {
+          const c = nodesBlueCountsRef.current[n] || 0;
           g.setNodeAttribute(n, 'color', getHeatColorForCount(c));
         }
-        // Apply initial visibility if only-new filter is active
-        const attrs = g.getNodeAttributes(n) as any;
-        if (!attrs?.isCluster) {
-          const deg = attrs?.degree || 0;
-          const hideByDeg = degreeThresholdRef.current > 0 && deg < degreeThresholdRef.current;
-          const hideByNew = showOnlyNewRef.current && !nodesBlueSetRef.current.has(n);
-          g.setNodeAttribute(n, 'hidden', hideByDeg || hideByNew);
-        }
+        if (!attrs.isCluster) g.setNodeAttribute(n, 'hidden', !filtersRef.current!.nodeVisible(n));
       });
 
       graphRef.current = g;
+      setGraphVersion((v) => v + 1);
+      setLoadProgress(null);
+      layoutOriginRef.current = null;
+      setLayoutInfo(null);
+      setLayoutSettings(defaultLayoutSettings(data.nodes.length));
 
       if (containerRef.current) {
         // If WebGL is unavailable, go straight to Canvas fallback and avoid logging errors
@@ -790,12 +896,34 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             labelRenderedSizeThreshold: 999999,
             minCameraRatio: 0.01,
             maxCameraRatio: 10,
+            // Comparison mode: color edges by how they changed, and with only-differences on
+            // hide everything the two runs agree on. Found paths are drawn over all of it.
+            nodeReducer: (node, attrs) => {
+              if (pathHighlightRef.current.nodes.has(node)) {
+                return {...attrs, hidden: false, highlighted: true, color: PATH_COLOR, label: (attrs as any).name || node};
+              }
+              if (!diffOnlyRef.current || !compareId || (attrs as any).isCluster || attrs.hidden) return attrs;
+              return nodesDiffSetRef.current.has(node) ? attrs : {...attrs, hidden: true};
+            },
+            edgeReducer: (edge, attrs) => {
+              if (pathHighlightRef.current.edges.has(edge)) return {...attrs, hidden: false, color: PATH_COLOR, size: 3};
+              const diff = (attrs as any).diff as EdgeDiff | undefined;
+              if (diffOnlyRef.current && compareId) {
+                const passes = filtersRef.current?.edgeVisible(edge) ?? true;
+                return diff && passes ? {...attrs, hidden: false, color: DIFF_COLORS[diff]} : {...attrs, hidden: true};
+              }
+              return diff ? {...attrs, color: DIFF_COLORS[diff]} : attrs;
+            },
           });
 
           // Debug logging toggle (default on). To disable: set window.__graphDebug = false in console.
           const isDebug = () => (window as any).__graphDebug !== false;
           const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+          // Tiled: the camera is framed on the whole run, not on the nodes loaded so far
+          const tileBounds = tileBoundsRef.current;
+          if (tileBounds) s.setCustomBBox({x: [tileBounds.minX, tileBounds.maxX], y: [tileBounds.minY, tileBounds.maxY]});
           const getGraphBounds = () => {
+            if (tileBounds) return tileBounds;
             let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
             g.forEachNode((n, attrs) => {
               if (attrs == null) return;
@@ -825,7 +953,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
         const updateLOD = () => {
           if ((window as any).__suspendLOD) return;
           const ratio = s.getCamera().getState().ratio;
-          const drawEdges = showAllEdgesRef.current || (showEdgesRef.current && ratio < 1.5);
+          const drawEdges = shouldRenderEdges(ratio);
           try {
             // Sigma v3 uses boolean setting key 'renderEdges'; TS types may not include it in our env
             (s as any).setSetting("renderEdges", drawEdges);
@@ -841,12 +969,9 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
                 // Show clusters, hide regular nodes
                 g.setNodeAttribute(n, "hidden", !isCluster);
               } else {
-                // Hide clusters, show regular nodes (respect degree filter separately)
+                // Hide clusters, show regular nodes that pass the filters
                 if (isCluster) g.setNodeAttribute(n, "hidden", true);
-                else {
-                  const deg = attrs.degree || 0;
-                  g.setNodeAttribute(n, "hidden", deg < degreeThresholdRef.current);
-                }
+                else g.setNodeAttribute(n, "hidden", !(filtersRef.current?.nodeVisible(n) ?? true));
               }
             });
           }
@@ -1077,25 +1202,11 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
         try { onCamUpdate(); } catch {}
 
         // Hover focus: zoom to node, show only neighbors, show neighbor edges
-        const setHovered = throttle((node?: string) => {
-          const neighbors = new Set<string>();
-          if (node) {
-            neighbors.add(node);
-            const onlyNew = showOnlyNewRef.current;
-            const conf = confidenceRef.current;
-            // Build neighbors based on filters (only-new and confidence)
-            g.forEachEdge((e, attrs, sId, tId) => {
-              const isEnd = sId === node || tId === node;
-              if (!isEnd) return;
-              const adb = (attrs as any).allDBs || '';
-              const isNone = String(adb).trim().toLowerCase() === 'none';
-              if (onlyNew && !isNone) return;
-              const ap = (attrs as any).afmprob;
-              if (typeof ap === 'number' && ap < conf) return;
-              neighbors.add(sId);
-              neighbors.add(tId);
-            });
-          }
+        const applyHover = (node?: string) => {
+          const filters = filtersRef.current!;
+          // Neighbors over edges that pass the filters
+          const hood = node ? filters.neighborhood(node) : null;
+          const neighbors = hood ? hood.nodes : new Set<string>();
 
           g.forEachNode((n) => {
             const isCluster = !!g.getNodeAttribute(n, "isCluster");
@@ -1113,9 +1224,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             g.setNodeAttribute(n, "color", isNeighbor ? undefined : "#bbb");
             }
             // Only show hovered node and neighbors; hide others
-            const hideByDeg = degreeThresholdRef.current > 0 && (g.getNodeAttribute(n, "degree") || 0) < degreeThresholdRef.current;
-            const hideByNew = showOnlyNewRef.current && !nodesBlueSetRef.current.has(n);
-            const hidden = node ? !isNeighbor || hideByNew : (hideByDeg || hideByNew);
+            const hidden = node ? !isNeighbor : !filters.nodeVisible(n);
             g.setNodeAttribute(n, "hidden", clusterModeRef.current ? true : hidden);
             // Show label only for hovered node and its actual neighbors
             const name = g.getNodeAttribute(n, "name") || "";
@@ -1189,28 +1298,18 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
 
           // Draw only edges connected to hovered node when showEdges is on
           if (showEdgesRef.current && !showAllEdgesRef.current) {
-            g.forEachEdge((e, _attr, sId, tId) => {
-              let visible = node ? neighbors.has(sId) && neighbors.has(tId) : false;
-              const adb = (g.getEdgeAttribute(e, 'allDBs') || '').toString().trim().toLowerCase();
-              const isNone = adb === 'none';
-              const hideByNew = showOnlyNewRef.current && !isNone;
-              const ap = g.getEdgeAttribute(e, 'afmprob') as number | undefined;
-              const hideByConf = typeof ap === 'number' ? ap < confidenceRef.current : false;
-              g.setEdgeAttribute(e, "hidden", !visible || hideByNew || hideByConf);
-              if (visible) g.setEdgeAttribute(e, 'color', isNone ? '#3b82f6' : undefined);
-              else g.setEdgeAttribute(e, 'color', undefined);
+            g.forEachEdge((e, attrs, sId, tId) => {
+              const visible = !!node && neighbors.has(sId) && neighbors.has(tId) && filters.edgeVisible(e);
+              g.setEdgeAttribute(e, "hidden", !visible);
+              g.setEdgeAttribute(e, 'color', visible ? edgeColor(attrs) : undefined);
             });
           } else {
-            g.forEachEdge((e) => {
-              const adb = (g.getEdgeAttribute(e, 'allDBs') || '').toString().trim().toLowerCase();
-              const isNone = adb === 'none';
-              const hideByNew = showOnlyNewRef.current && !isNone;
-              const ap = g.getEdgeAttribute(e, 'afmprob') as number | undefined;
-              const hideByConf = typeof ap === 'number' ? ap < confidenceRef.current : false;
-              // If showAllEdges is on and not focused, show all (filtered) edges; otherwise hide by default
-              const notFocused = !focusedNodeRef.current;
-              const defaultHidden = showAllEdgesRef.current && notFocused ? false : true;
-              g.setEdgeAttribute(e, "hidden", defaultHidden || hideByNew || hideByConf);
+            // If showAllEdges is on and not focused, show all (filtered) edges; otherwise hide by default
+            const showAll = showAllEdgesRef.current && !focusedNodeRef.current;
+            g.forEachEdge((e, attrs) => {
+              const visible = showAll && filters.edgeVisible(e);
+              g.setEdgeAttribute(e, "hidden", !visible);
+              g.setEdgeAttribute(e, 'color', visible ? edgeColor(attrs) : undefined);
             });
           }
 
@@ -1230,31 +1329,12 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             focusedNodeRef.current = node;
             // Update focused info (degree and blue-degree) respecting filters
             try {
-              const thr = degreeThresholdRef.current;
-              const onlyNew = showOnlyNewRef.current;
-              const conf = confidenceRef.current;
-              let degF = 0, blueF = 0;
-              g.forEachEdge((e, attrs, sId, tId) => {
-                if (sId !== node && tId !== node) return;
-                const other = sId === node ? tId : sId;
-                const otherDeg = (g.getNodeAttribute(other, 'degree') as number) || 0;
-                const hideByDeg = thr > 0 && otherDeg < thr;
-                const hideByNewNode = onlyNew && !nodesBlueSetRef.current.has(other);
-                if (hideByDeg || hideByNewNode) return;
-                const ap = (attrs as any)?.afmprob;
-                if (typeof ap === 'number' && ap < conf) return;
-                const adb = (attrs as any)?.allDBs || '';
-                const isNone = String(adb).trim().toLowerCase() === 'none';
-                if (onlyNew && !isNone) return;
-                degF++;
-                if (isNone) blueF++;
-              });
               let nm = g.getNodeAttribute(node, 'name') as string | undefined;
               if (!nm || !nm.trim()) {
                 const found = nameIndexRef.current.find((e) => e.id === node);
                 nm = (found && found.name) || (g.getNodeAttribute(node, 'label') as string) || node;
               }
-              setFocusedInfo({id: node, name: nm, degree: degF, blue: blueF});
+              setFocusedInfo({id: node, name: nm, degree: hood!.degree, blue: hood!.blue});
             } catch {}
             const x = g.getNodeAttribute(node, "x");
             const y = g.getNodeAttribute(node, "y");
@@ -1301,13 +1381,10 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
               } catch { cam.setState(st); isAnimatingRef.current = false; }
               focusedNodeRef.current = null;
               setFocusedInfo(null);
-              // Restore nodes (respect degree filter) and keep only-new filter
+              // Restore nodes that pass the filters
               g.forEachNode((n, attrs) => {
                 if (attrs.isCluster) return;
-                const deg = attrs.degree || 0;
-                const hideByDeg = degreeThresholdRef.current > 0 && deg < degreeThresholdRef.current;
-                const hideByNew = showOnlyNewRef.current && !nodesBlueSetRef.current.has(n);
-                g.setNodeAttribute(n, "hidden", hideByDeg || hideByNew);
+                g.setNodeAttribute(n, "hidden", !filters.nodeVisible(n));
                 g.setNodeAttribute(n, "label", "");
                 // Preserve heatmap blue after defocus
                 if (nodesBlueSetRef.current.has(n)) {
@@ -1321,22 +1398,22 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
                 const baseSize = g.getNodeAttribute(n, "baseSize") || g.getNodeAttribute(n, "size") || 1;
                 g.setNodeAttribute(n, "size", baseSize);
               });
-              // Hide non-new edges when only-new is active
-              g.forEachEdge((e, attrs) => {
-                const adb = (attrs as any).allDBs || '';
-                const isNone = String(adb).trim().toLowerCase() === 'none';
-                const ap = (attrs as any).afmprob;
-                const hideByConf = typeof ap === 'number' ? ap < confidenceRef.current : false;
-                if ((showOnlyNewRef.current && !isNone) || hideByConf) g.setEdgeAttribute(e, 'hidden', true);
-              });
+              // Hide edges the filters reject
+              g.forEachEdge((e) => { if (!filters.edgeVisible(e)) g.setEdgeAttribute(e, 'hidden', true); });
               s.refresh();
             }, 180);
             return;
           }
 
           s.refresh();
-        }, 24);
+        };
+        const setHovered = throttle(applyHover, 24);
         setHoveredRef.current = (nodeId?: string) => setHovered(nodeId);
+        // After a filter change: same pass as focusing, unthrottled and without moving the camera
+        refreshVisibilityRef.current = () => {
+          suppressCamAnimRef.current = true;
+          try { applyHover(focusedNodeRef.current || undefined); } finally { suppressCamAnimRef.current = false; }
+        };
 
         // Lightweight hover preview: show edges + label only, no zoom/pan/size changes
         const previewHover = throttle((node?: string) => {
@@ -1353,12 +1430,10 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
               nbSet.add(node);
               for (const nb of adjacencyRef.current[node] || []) nbSet.add(nb);
             }
-            g.forEachEdge((e, _attr, sId, tId) => {
-              const vis = node ? nbSet.has(sId) && nbSet.has(tId) : false;
-              const adb = (g.getEdgeAttribute(e, 'allDBs') || '').toString().trim().toLowerCase();
-              const isNone = adb === 'none';
+            g.forEachEdge((e, attrs, sId, tId) => {
+              const vis = node ? nbSet.has(sId) && nbSet.has(tId) && filtersRef.current!.edgeVisible(e) : false;
               g.setEdgeAttribute(e, 'hidden', !vis);
-              if (vis) g.setEdgeAttribute(e, 'color', isNone ? '#3b82f6' : undefined);
+              if (vis) g.setEdgeAttribute(e, 'color', edgeColor(attrs));
               else g.setEdgeAttribute(e, 'color', undefined);
             });
           } else {
@@ -1413,16 +1488,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
           if (handled) return;
           // clear any labels and edges when defocusing via empty click
           g.forEachNode((n) => g.setNodeAttribute(n, 'label', ''));
-          g.forEachEdge((e, attrs) => {
-            const adb = (attrs as any)?.allDBs || '';
-            const isNone = String(adb).trim().toLowerCase() === 'none';
-            const ap = (attrs as any)?.afmprob;
-            const hideByNew = showOnlyNewRef.current && !isNone;
-            const hideByConf = typeof ap === 'number' ? ap < confidenceRef.current : false;
-            const notFocused = true;
-            const defaultHidden = showAllEdgesRef.current && notFocused ? false : true;
-            g.setEdgeAttribute(e, 'hidden', defaultHidden || hideByNew || hideByConf);
-          });
+          g.forEachEdge((e) => g.setEdgeAttribute(e, 'hidden', !(showAllEdgesRef.current && filtersRef.current!.edgeVisible(e))));
           setHovered(undefined);
         });
         // Hover preview handlers (no camera movement)
@@ -1437,6 +1503,94 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
         s.on("leaveNode", () => { previewHover(undefined); if (!focusedNodeRef.current) setGeneInfo(null); });
 
           sigmaRef.current = s;
+
+          // Restore the shared view, then keep the camera in the URL
+          const pending = pendingUrlViewRef.current;
+          pendingUrlViewRef.current = {};
+          if (pending.focus && g.hasNode(pending.focus)) setHovered(pending.focus);
+          else if (pending.cam) s.getCamera().setState(pending.cam);
+          s.getCamera().on('updated', (state) => {
+            if (camWriteTimerRef.current) window.clearTimeout(camWriteTimerRef.current);
+            camWriteTimerRef.current = window.setTimeout(() => {
+              writeQuery({cam: `${state.x.toFixed(4)},${state.y.toFixed(4)},${state.ratio.toFixed(4)}`});
+            }, 300);
+          });
+
+          // Tiled: once the camera settles, fetch the nodes in and around the viewport at a
+          // detail matching the zoom and swap them in for the ones that scrolled away
+          const loadTile = async () => {
+            // A running live layout has moved the loaded nodes; fresh tile positions would not match
+            if (liveLayoutRef.current?.isRunning()) return;
+            const seq = ++tileSeqRef.current;
+            const {width, height} = s.getDimensions();
+            const a = s.viewportToGraph({x: 0, y: 0});
+            const b = s.viewportToGraph({x: width, y: height});
+            const w = Math.abs(b.x - a.x);
+            const h = Math.abs(b.y - a.y);
+            const bbox = {
+              minX: Math.min(a.x, b.x) - w * TILE_MARGIN,
+              minY: Math.min(a.y, b.y) - h * TILE_MARGIN,
+              maxX: Math.max(a.x, b.x) + w * TILE_MARGIN,
+              maxY: Math.max(a.y, b.y) + h * TILE_MARGIN,
+            };
+            const focus = pendingFocusRef.current || focusedNodeRef.current || undefined;
+            let tile: Tile;
+            try {
+              const res = await fetch(tileUrl(datasetId!, viewMode, {bbox, res: (w / Math.max(1, width)) * TILE_CELL_PX, focus}), {cache: 'no-store'});
+              if (!res.ok) throw new Error(`HTTP ${res.status}`);
+              tile = await res.json();
+            } catch (e) {
+              console.warn('[Graph] tile load failed', e);
+              return;
+            }
+            if (disposed || seq !== tileSeqRef.current) return;
+
+            const keep = new Set(tile.nodes.map((n) => n.id));
+            if (focusedNodeRef.current) keep.add(focusedNodeRef.current);
+            // Highlighted paths stay loaded while panning away from them
+            for (const n of pathHighlightRef.current.nodes) keep.add(n);
+            const gone: string[] = [];
+            g.forEachNode((n, attrs) => { if (!attrs.isCluster && !keep.has(n)) gone.push(n); });
+            for (const n of gone) g.dropNode(n);
+            for (const n of tile.nodes) if (!g.hasNode(n.id)) g.addNode(n.id, {...nodeAttributes(n), hidden: clusterModeRef.current});
+            for (const e of tile.edges) {
+              if (g.hasEdge(e.id) || !g.hasNode(e.source) || !g.hasNode(e.target)) continue;
+              g.addEdgeWithKey(e.id, e.source, e.target, {...edgeAttributes(e), hidden: true});
+              edgeAllDBsRef.current[e.id] = e.allDBs || '';
+            }
+            const edges: Array<{source: string; target: string}> = [];
+            g.forEachEdge((_e, _attrs, source, target) => { edges.push({source, target}); });
+            adjacencyRef.current = adjacencyOf(edges);
+            nameIndexRef.current = [];
+            g.forEachNode((n, attrs) => {
+              if (attrs.isCluster) return;
+              const nm = String(attrs.name || n);
+              nameIndexRef.current.push({id: n, name: nm, nameLower: nm.toLowerCase()});
+            });
+            indexNovelEdges(g);
+            indexEdgeSummaries(g);
+            filtersRef.current!.refresh();
+            setTotals(filtersRef.current!.totals());
+            setTileInfo({total: tile.total, truncated: tile.truncated});
+            setGraphVersion((v) => v + 1);
+
+            // Re-apply filters, heat colors and focus to the new nodes without moving the camera
+            const pendingFocus = pendingFocusRef.current;
+            if (pendingFocus && g.hasNode(pendingFocus)) {
+              pendingFocusRef.current = null;
+              setHovered(pendingFocus);
+            } else {
+              suppressCamAnimRef.current = true;
+              try { setHovered(focusedNodeRef.current || undefined); } finally { suppressCamAnimRef.current = false; }
+            }
+          };
+          if (tileBounds) {
+            s.getCamera().on('updated', () => {
+              if (tileTimerRef.current) window.clearTimeout(tileTimerRef.current);
+              tileTimerRef.current = window.setTimeout(loadTile, 200);
+            });
+            loadTile();
+          }
         } catch (err) {
           console.warn("Sigma WebGL init failed – using Canvas fallback", err);
           // Fallback to simple Canvas2D renderer when WebGL is unavailable
@@ -1531,9 +1685,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
                   const srcS = worldToScreen(src);
                   for (const nb of adjacencyRef.current[hovered] || []) {
                     const t = nodes[idToIndexRef.current[nb]];
-                    if (!t) continue;
-                    const thr = degreeThresholdRef.current;
-                    if (thr > 0 && t.degree < thr) continue;
+                    if (!t || !filtersRef.current?.nodeVisible(t.id)) continue;
                     const tS = worldToScreen(t);
                     ctx.beginPath();
                     ctx.moveTo(srcS.x, srcS.y);
@@ -1545,10 +1697,9 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             // nodes
             const neighborSet = hovered ? new Set<string>([hovered, ...(adjacencyRef.current[hovered] || [])]) : null;
             for (const n of nodes) {
-                const thr = degreeThresholdRef.current;
               if (neighborSet) {
                 if (!neighborSet.has(n.id)) continue;
-              } else if (thr > 0 && n.degree < thr) continue;
+              } else if (!filtersRef.current?.nodeVisible(n.id)) continue;
                 const {x, y} = worldToScreen(n);
               const r = Math.max(1, Math.sqrt(Math.max(1, n.degree)) * (hovered ? 1.6 : 1));
                 const isNeighbor = hovered ? (n.id === hovered || (adjacencyRef.current[hovered] || []).includes(n.id)) : true;
@@ -1713,11 +1864,18 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
     init();
     return () => {
       disposed = true;
+      liveLayoutRef.current?.stop();
+      liveLayoutRef.current = null;
       const s: any = sigmaRef.current;
       if (s?._ro) try { s._ro.disconnect(); } catch {}
       sigmaRef.current?.kill();
       sigmaRef.current = null;
       graphRef.current = null;
+      filtersRef.current = null;
+      refreshVisibilityRef.current = null;
+      if (camWriteTimerRef.current) { window.clearTimeout(camWriteTimerRef.current); camWriteTimerRef.current = null; }
+      if (tileTimerRef.current) { window.clearTimeout(tileTimerRef.current); tileTimerRef.current = null; }
+      pendingFocusRef.current = null;
       // Clean up cluster label overlay
       try {
         if (clusterLabelsRef.current && clusterLabelsRef.current.parentElement) {
@@ -1727,23 +1885,27 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
         clusterLabelElsRef.current = {} as any;
       } catch {}
     };
-  }, [viewMode]);
-
-  // Apply degree filter
-  React.useEffect(() => {
-    const g = graphRef.current;
-    if (!g) return;
-    g.forEachNode((n) => {
-      const deg = g.getNodeAttribute(n, "degree") || 0;
-      g.setNodeAttribute(n, "hidden", deg < degreeThreshold);
-    });
-    sigmaRef.current?.refresh();
-  }, [degreeThreshold]);
+  }, [viewMode, datasetId, compareId, tiled]);
 
   // Search suggestions
   React.useEffect(() => {
     const q = searchQuery.trim().toLowerCase();
     if (!q) { setSearchMatches([]); return; }
+    // Tiled: most nodes are not loaded, so search the whole run on the server
+    if (tiled && datasetId) {
+      let cancelled = false;
+      const timer = window.setTimeout(async () => {
+        try {
+          const res = await fetch(`/api/datasets/${encodeURIComponent(datasetId)}/tiles?q=${encodeURIComponent(q)}${viewMode === 'locality' ? '&view=locality' : ''}`, {cache: 'no-store'});
+          const body = await res.json();
+          if (cancelled || !res.ok) return;
+          const matches: Array<{id: string; name: string; x: number; y: number}> = body.matches || [];
+          for (const m of matches) searchPositionsRef.current[m.id] = {x: m.x, y: m.y};
+          setSearchMatches(matches.map(({id, name}) => ({id, name})));
+        } catch {}
+      }, 150);
+      return () => { cancelled = true; window.clearTimeout(timer); };
+    }
     const idx = nameIndexRef.current;
     const starts: Array<{id: string; name: string}> = [];
     const contains: Array<{id: string; name: string}> = [];
@@ -1755,12 +1917,212 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
     }
     const combined = starts.length >= 8 ? starts : [...starts, ...contains].slice(0, 8);
     setSearchMatches(combined);
-  }, [searchQuery]);
+  }, [searchQuery, tiled, datasetId, viewMode]);
 
   function focusById(nodeId: string) {
+    const g = graphRef.current;
+    const s = sigmaRef.current;
+    const pos = searchPositionsRef.current[nodeId];
+    // Tiled and not loaded yet: fly there; the tile fetched when the camera settles brings the
+    // node in and focuses it
+    if (g && s && !g.hasNode(nodeId) && pos) {
+      pendingFocusRef.current = nodeId;
+      const target = s.viewportToFramedGraph(s.graphToViewport(pos));
+      s.getCamera().animate({x: target.x, y: target.y, ratio: 0.1}, {duration: 500});
+      return;
+    }
     if (setHoveredRef.current) setHoveredRef.current(nodeId);
   }
 
+  React.useEffect(() => {
+    if (skipFirstUrlWriteRef.current) { skipFirstUrlWriteRef.current = false; return; }
+    writeQuery({
+      focus: focusedInfo?.id,
+      q: searchQuery.trim(),
+      deg: degreeThreshold > 0 ? degreeThreshold : null,
+      conf: confidence > minConfidence ? confidence.toFixed(2) : null,
+      confmax: confidenceMax < 1 ? confidenceMax.toFixed(2) : null,
+      new: showOnlyNew,
+      all: showAllEdges,
+      view: viewMode === (initialViewMode || 'default') ? null : viewMode,
+      ds: datasetId,
+      cmp: compareId,
+      diff: !!compareId && diffOnly,
+      db: [...dbRule.required.map((k) => `+${k}`), ...dbRule.excluded.map((k) => `-${k}`)].join(',') || null,
+      dbcolor: colorByDb,
+      path: pathEnds.map((e) => e.id).join(',') || null,
+      pathk: pathK > 1 ? pathK : null,
+      pathw: pathWeighted,
+    });
+  }, [focusedInfo?.id, searchQuery, degreeThreshold, confidence, minConfidence, showOnlyNew, showAllEdges, viewMode, datasetId, compareId, diffOnly, dbRule, colorByDb, confidenceMax, pathEnds, pathK, pathWeighted]);
+
+  // A database is either required or excluded, never both
+  function toggleDatabase(key: string, list: 'required' | 'excluded', on: boolean) {
+    setDbRule((prev) => {
+      const other = list === 'required' ? 'excluded' : 'required';
+      const next = {...prev, [list]: prev[list].filter((k) => k !== key), [other]: on ? prev[other].filter((k) => k !== key) : prev[other]};
+      if (on) next[list] = [...next[list], key];
+      return next;
+    });
+  }
+
+  // Cluster meta-nodes sit at the centroid of their community; follow the members after a re-layout
+  function recenterClusters(g: Graph) {
+    const sums: Record<number, {x: number; y: number; n: number}> = {};
+    g.forEachNode((_n, attrs: any) => {
+      if (attrs?.isCluster || typeof attrs?.community !== 'number') return;
+      const acc = (sums[attrs.community] ||= {x: 0, y: 0, n: 0});
+      acc.x += attrs.x; acc.y += attrs.y; acc.n++;
+    });
+    g.forEachNode((n, attrs: any) => {
+      const acc = attrs?.isCluster ? sums[attrs.community] : undefined;
+      if (acc && acc.n) g.mergeNodeAttributes(n, {x: acc.x / acc.n, y: acc.y / acc.n});
+    });
+  }
+
+  function startLayout(settings = layoutSettings) {
+    const g = graphRef.current;
+    if (!g) return;
+    liveLayoutRef.current?.stop();
+    const visible = visibleSubgraph();
+    // Comparison mode: nodes only the base run has (every edge of theirs "removed") stay put;
+    // visibleSubgraph already leaves out the base-only edges
+    const baseOnly = (n: string) => g.degree(n) > 0 && g.everyEdge(n, (_e, attrs) => attrs.diff === 'removed');
+    const sub = {...visible, nodes: visible.nodes.filter((n) => !baseOnly(n.id))};
+    if (!sub.nodes.length) return;
+    if (!layoutOriginRef.current) {
+      const origin: Record<string, {x: number; y: number}> = {};
+      g.forEachNode((n, attrs: any) => { origin[n] = {x: attrs.x, y: attrs.y}; });
+      layoutOriginRef.current = origin;
+    }
+    const layout = startLiveLayout(g, sub, settings);
+    liveLayoutRef.current = layout;
+    setLayoutInfo({nodes: layout.nodes, edges: layout.edges, running: true});
+  }
+
+  function stopLayout() {
+    const g = graphRef.current;
+    liveLayoutRef.current?.stop();
+    liveLayoutRef.current = null;
+    if (g) recenterClusters(g);
+    setLayoutInfo((prev) => prev ? {...prev, running: false} : prev);
+  }
+
+  function resetLayout() {
+    stopLayout();
+    const g = graphRef.current;
+    const origin = layoutOriginRef.current;
+    if (!g || !origin) return;
+    g.updateEachNodeAttributes((n, attrs) => {
+      const p = origin[n];
+      if (p) { attrs.x = p.x; attrs.y = p.y; }
+      return attrs;
+    }, {attributes: ['x', 'y']});
+    layoutOriginRef.current = null;
+    setLayoutInfo(null);
+  }
+
+  function updateLayoutSettings(patch: Partial<LayoutSettings>) {
+    const next = {...layoutSettings, ...patch};
+    setLayoutSettings(next);
+    // The worker keeps the settings it started with; restart to apply
+    if (liveLayoutRef.current?.isRunning()) startLayout(next);
+  }
+
+  // Nodes and edges passing the current filters (degree, only-new, confidence, focus), independent
+  // of whether edges are drawn at the current zoom level or clusters are shown instead.
+  function visibleSubgraph(): ExportGraph {
+    const g = graphRef.current;
+    const filters = filtersRef.current;
+    if (!g || !filters) return {nodes: [], edges: []};
+    const focused = focusedNodeRef.current;
+    const focusSet = focused ? filters.neighborhood(focused).nodes : null;
+    const nodes: ExportGraph["nodes"] = [];
+    const keep = new Set<string>();
+    g.forEachNode((n, attrs: any) => {
+      if (attrs?.isCluster) return;
+      if (focusSet ? !focusSet.has(n) : !filters.nodeVisible(n)) return;
+      keep.add(n);
+      nodes.push({id: n, label: attrs?.name || n, x: attrs?.x ?? 0, y: attrs?.y ?? 0, size: attrs?.baseSize ?? attrs?.size ?? 1, degree: attrs?.degree || 0, community: typeof attrs?.community === 'number' && attrs.community >= 0 ? attrs.community : null, color: attrs?.color});
+    });
+    const edges: ExportGraph["edges"] = [];
+    g.forEachEdge((e, attrs: any, src, tgt) => {
+      // Comparison mode: interactions only the base run has are not part of this run
+      if (attrs?.diff === 'removed') return;
+      if (!keep.has(src) || !keep.has(tgt) || !filters.edgeVisible(e)) return;
+      edges.push({id: e, source: src, target: tgt, weight: attrs?.weight ?? 1, allDBs: attrs?.allDBs || '', afmprob: attrs?.afmprob});
+    });
+    return {nodes, edges};
+  }
+
+  // What is on screen right now, projected to viewport pixels
+  function currentViewSvg(): {svg: string; width: number; height: number} | null {
+    const g = graphRef.current;
+    const s = sigmaRef.current;
+    const background = getComputedStyle(document.body).backgroundColor || '#ffffff';
+    const dark = typeof window.matchMedia === 'function' && window.matchMedia('(prefers-color-scheme: dark)').matches;
+    const nodes: ViewNode[] = [];
+    const edges: ViewEdge[] = [];
+    if (s && g) {
+      const {width, height} = s.getDimensions();
+      const pos: Record<string, ViewNode> = {};
+      g.forEachNode((n) => {
+        const d = s.getNodeDisplayData(n);
+        if (!d || d.hidden) return;
+        const vp = s.framedGraphToViewport({x: d.x, y: d.y});
+        const r = d.size || 2;
+        if (vp.x < -r || vp.y < -r || vp.x > width + r || vp.y > height + r) return;
+        pos[n] = {x: vp.x, y: vp.y, r, color: d.color || '#999', label: (g.getNodeAttribute(n, 'label') as string) || undefined};
+        nodes.push(pos[n]);
+      });
+      if (s.getSetting('renderEdges')) {
+        g.forEachEdge((e, _attrs, src, tgt) => {
+          const d = s.getEdgeDisplayData(e);
+          if (!d || d.hidden || !pos[src] || !pos[tgt]) return;
+          edges.push({x1: pos[src].x, y1: pos[src].y, x2: pos[tgt].x, y2: pos[tgt].y, color: d.color || '#ccc', width: d.size || 1});
+        });
+      }
+      const labelColor = (s.getSetting('labelColor') as any)?.color || (dark ? '#e5e7eb' : '#000000');
+      return {svg: viewToSvg({width, height, nodes, edges, background, labelColor}), width, height};
+    }
+    const canvas = fallbackCanvasRef.current;
+    if (!canvas || canvas.style.display === 'none') return null;
+    // Canvas fallback: mirror its drawing (degree-sized grey dots, no edges unless hovering)
+    const rect = canvas.getBoundingClientRect();
+    const {scale, tx, ty} = viewRef.current;
+    for (const n of fallbackNodesRef.current) {
+      if (!filtersRef.current?.nodeVisible(n.id)) continue;
+      const x = n.x * scale + tx, y = n.y * scale + ty;
+      if (x < 0 || y < 0 || x > rect.width || y > rect.height) continue;
+      nodes.push({x, y, r: Math.max(1, Math.sqrt(Math.max(1, n.degree))), color: '#9aa'});
+    }
+    return {svg: viewToSvg({width: rect.width, height: rect.height, nodes, edges, background, labelColor: '#eee'}), width: rect.width, height: rect.height};
+  }
+
+  async function exportView(format: 'png' | 'svg' | 'gexf' | 'graphml' | 'nodes.csv' | 'edges.csv') {
+    const base = viewMode === 'locality' ? 'ppi_locality' : 'ppi';
+    setExportError('');
+    try {
+      if (format === 'png' || format === 'svg') {
+        const view = currentViewSvg();
+        if (!view) { setExportError('Export failed: the graph is not drawn yet'); return; }
+        if (format === 'svg') downloadBlob(new Blob([view.svg], {type: 'image/svg+xml;charset=utf-8'}), `${base}_view.svg`);
+        else downloadBlob(await svgToPng(view.svg, view.width, view.height, Math.max(2, window.devicePixelRatio || 1) * 2), `${base}_view.png`);
+        return;
+      }
+      const sub = visibleSubgraph();
+      const [text, type] =
+        format === 'gexf' ? [toGexf(sub), 'application/xml'] :
+        format === 'graphml' ? [toGraphML(sub), 'application/xml'] :
+        format === 'nodes.csv' ? [nodesToCsv(sub), 'text/csv'] :
+        [edgesToCsv(sub), 'text/csv'];
+      downloadBlob(new Blob([text], {type: `${type};charset=utf-8`}), `${base}_subgraph.${format}`);
+    } catch (err) {
+      console.error('[GraphViewer] export failed', err);
+      setExportError(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
   return (
     <div className="w-full h-full flex flex-col relative">
       <div className="absolute top-2 left-2 z-10 bg-gray-800/90 text-white backdrop-blur rounded-md border border-gray-700 px-4 py-3 shadow text-sm max-w-xs">
@@ -1775,6 +2137,19 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             <div><span className="font-medium">Proteins:</span> {totals.nodes}</div>
             <div><span className="font-medium">Interactions:</span> {totals.edges}</div>
             <div><span className="font-medium">New interactions:</span> {totals.blueEdges}</div>
+            {tileInfo && (
+              <div className="text-xs text-gray-300" title="Only the proteins around the current view are loaded">
+                Tiled: {totals.nodes} of {tileInfo.total.nodes} proteins loaded{tileInfo.truncated ? ' (busiest shown, zoom in for more)' : ''}
+              </div>
+            )}
+          </div>
+        )}
+        {diffCounts && (
+          <div title={`Compared with ${datasets.find((d) => d.id === compareId)?.name || compareId}`}>
+            <span className="font-medium">Changes:</span>{' '}
+            <span style={{color: DIFF_COLORS.added}}>+{diffCounts.added}</span>{' '}
+            <span style={{color: DIFF_COLORS.removed}}>−{diffCounts.removed}</span>{' '}
+            <span style={{color: DIFF_COLORS.changed}}>~{diffCounts.changed}</span>
           </div>
         )}
       </div>
@@ -1789,6 +2164,46 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             >
               ‹
             </button>
+            {dataset && (
+              <div className="rounded-md border border-gray-700 bg-gray-900/70 p-2 text-xs text-gray-300 flex flex-col gap-0.5">
+                <span className="font-semibold text-white">{dataset.name}</span>
+                {dataset.description && <span className="text-gray-200">{dataset.description}</span>}
+                <span>{organismByCode(dataset.organism)?.name || dataset.organism}{dataset.createdAt ? ` · ${new Date(dataset.createdAt).toLocaleDateString()}` : ''}</span>
+                {dataset.source && <span className="truncate" title={dataset.source}>Source: {dataset.source.split('/').pop()}</span>}
+                {dataset.thresholds && Object.keys(dataset.thresholds).length > 0 && (
+                  <span>Thresholds: {Object.entries(dataset.thresholds).map(([k, v]) => `${k} ${v}`).join(', ')}</span>
+                )}
+              </div>
+            )}
+            {datasetError && <div className="text-xs text-red-300">{datasetError}</div>}
+            {!tiled && (
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="whitespace-nowrap">Compare with</span>
+                <select
+                  value={compareId || ''}
+                  onChange={(e) => setCompareId(e.target.value || null)}
+                  className="min-w-0 flex-1 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs"
+                >
+                  <option value="">None</option>
+                  {datasets.filter((d) => d.id !== datasetId && d.views.includes(viewMode)).map((d) => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {compareId && !tiled && (
+              <>
+                <div className="flex items-center gap-3 text-xs text-gray-300">
+                  <span><span className="inline-block h-2 w-3 mr-1 align-middle" style={{background: DIFF_COLORS.added}} />added</span>
+                  <span><span className="inline-block h-2 w-3 mr-1 align-middle" style={{background: DIFF_COLORS.removed}} />removed</span>
+                  <span><span className="inline-block h-2 w-3 mr-1 align-middle" style={{background: DIFF_COLORS.changed}} />AFMprob/allDBs changed</span>
+                </div>
+                <label className="flex items-center justify-between gap-2 text-sm">
+                  <span>Show only differences</span>
+                  <input type="checkbox" checked={diffOnly} onChange={(e) => setDiffOnly(e.target.checked)} />
+                </label>
+              </>
+            )}
             <label className="flex items-center justify-between gap-2 text-sm">
               <span>Show only new</span>
               <input type="checkbox" checked={showOnlyNew} onChange={(e) => setShowOnlyNew(e.target.checked)} />
@@ -1805,7 +2220,7 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
             </label>
             <div className="flex items-center justify-between">
               <span className="whitespace-nowrap">Confidence level</span>
-              <span className="tabular-nums">{confidence.toFixed(2)}</span>
+              <span className="tabular-nums">{confidence.toFixed(2)}{confidenceMax < 1 ? `–${confidenceMax.toFixed(2)}` : ''}</span>
             </div>
             <input
               className="w-full"
@@ -1818,10 +2233,21 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
                 const v = Number(e.target.value);
                 setConfidence(v);
                 confidenceRef.current = v;
-                recomputeTotalsImmediate();
-                if (focusedNodeRef.current) recomputeFocusedInfoImmediate(focusedNodeRef.current);
+                // A cutoff above the brushed range would hide everything; drop the upper bound
+                if (v > confidenceMax) setConfidenceMax(1);
               }}
             />
+            {confHistogram && (
+              <ConfidenceHistogram
+                histogram={confHistogram}
+                range={[confidence, confidenceMax]}
+                onChange={([lo, hi]) => {
+                  setConfidence(lo);
+                  confidenceRef.current = lo;
+                  setConfidenceMax(hi);
+                }}
+              />
+            )}
             <div className="flex items-center justify-between">
               <span className="whitespace-nowrap">Degree ≥</span>
               <span className="tabular-nums">{degreeThreshold}</span>
@@ -1836,10 +2262,174 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
               onChange={(e) => {
                 const v = Number(e.target.value);
                 setDegreeThreshold(v);
-                recomputeTotalsImmediate();
-                if (focusedNodeRef.current) recomputeFocusedInfoImmediate(focusedNodeRef.current);
               }}
             />
+            {databases.length > 0 && (
+              <div className="flex flex-col gap-1">
+                <div className="flex items-center justify-between">
+                  <span>Databases</span>
+                  <button
+                    onClick={() => setDbRule({required: [], excluded: []})}
+                    disabled={!dbRule.required.length && !dbRule.excluded.length}
+                    className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Clear
+                  </button>
+                </div>
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-2 items-center text-xs max-h-40 overflow-y-auto">
+                  <span className="text-gray-400">Source</span>
+                  <span className="text-gray-400 text-right">Edges</span>
+                  <span className="text-gray-400" title="Only interactions supported by this database">With</span>
+                  <span className="text-gray-400" title="Hide interactions supported by this database">Without</span>
+                  {databases.map((d) => (
+                    <React.Fragment key={d.key}>
+                      <span className="truncate flex items-center gap-1" title={d.label}>
+                        {colorByDb && <span className="inline-block h-2 w-3 shrink-0" style={{background: d.color}} />}
+                        {d.label}
+                      </span>
+                      <span className="tabular-nums text-right text-gray-300">{d.edges}</span>
+                      <input type="checkbox" checked={dbRule.required.includes(d.key)} onChange={(e) => toggleDatabase(d.key, 'required', e.target.checked)} />
+                      <input type="checkbox" checked={dbRule.excluded.includes(d.key)} onChange={(e) => toggleDatabase(d.key, 'excluded', e.target.checked)} />
+                    </React.Fragment>
+                  ))}
+                </div>
+                <label className="flex items-center justify-between gap-2 text-sm">
+                  <span>Color edges by database</span>
+                  <input type="checkbox" checked={colorByDb} onChange={(e) => setColorByDb(e.target.checked)} />
+                </label>
+                {colorByDb && (
+                  <span className="text-xs text-gray-300">
+                    <span className="inline-block h-2 w-3 mr-1 align-middle" style={{background: MULTI_DB_COLOR}} />several databases
+                  </span>
+                )}
+              </div>
+            )}
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center justify-between">
+                <span>Paths</span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => focusedInfo && addPathEnd(focusedInfo.id, focusedInfo.name)}
+                    disabled={!focusedInfo || pathEnds.some((e) => e.id === focusedInfo.id)}
+                    className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Add focused
+                  </button>
+                  <button onClick={() => setPathEnds([])} disabled={!pathEnds.length} className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700 disabled:opacity-50">Clear</button>
+                </div>
+              </div>
+              {pathEnds.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  {pathEnds.map((end, i) => (
+                    <React.Fragment key={end.id}>
+                      {i > 0 && <span className="text-gray-400">→</span>}
+                      <span className="flex items-center gap-1 rounded border border-gray-600 px-1">
+                        {pathNodeName(end.id, end.name)}
+                        <button aria-label={`Remove ${end.name}`} onClick={() => setPathEnds((prev) => prev.filter((e) => e.id !== end.id))} className="text-gray-400 hover:text-white">×</button>
+                      </span>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+              {pathEnds.length < 2 ? (
+                <span className="text-xs text-gray-400">Pick two or more proteins with “+ path” in search, or add the focused one.</span>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <label className="flex items-center gap-1">
+                      <span>Paths per pair</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_PATHS_PER_PAIR}
+                        value={pathK}
+                        onChange={(e) => { const v = Math.round(Number(e.target.value)); if (v >= 1 && v <= MAX_PATHS_PER_PAIR) setPathK(v); }}
+                        className="w-12 bg-gray-900 border border-gray-700 rounded px-1 py-0.5"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1" title="Prefer the most probable chain of interactions over the fewest hops">
+                      <input type="checkbox" checked={pathWeighted} onChange={(e) => setPathWeighted(e.target.checked)} />
+                      Weight by AFMprob
+                    </label>
+                  </div>
+                  <div className="flex flex-col gap-1 text-xs max-h-48 overflow-y-auto">
+                    {pathPairs.map((pair, i) => (
+                      <div key={`${pair.from}-${pair.to}`} className="flex flex-col gap-0.5">
+                        {pathPairs.length > 1 && <span className="text-gray-400">{pathNodeName(pair.from)} → {pathNodeName(pair.to)}</span>}
+                        {pair.missing ? (
+                          <span className="text-gray-400">{tiled ? 'Not loaded; pan to both proteins' : 'Not in this dataset'}</span>
+                        ) : !pair.paths.length ? (
+                          <span className="text-gray-400">No path over the filtered interactions</span>
+                        ) : pair.paths.map((p, j) => {
+                          const key = `${i}:${j}`;
+                          return (
+                            <button
+                              key={key}
+                              onClick={() => setSelectedPath(selectedPath === key ? null : key)}
+                              className={`text-left rounded px-1 py-0.5 hover:bg-gray-700 ${selectedPath === key ? 'bg-gray-700' : ''}`}
+                            >
+                              <span className="tabular-nums text-gray-400">{p.edges.length} {p.edges.length === 1 ? 'hop' : 'hops'} · p {p.probability.toFixed(3)}</span>
+                              <span className="block break-words">{p.nodes.map((n) => pathNodeName(n)).join(' → ')}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                  {tiled && <span className="text-xs text-gray-400">Tiled: paths run over the loaded proteins only.</span>}
+                </>
+              )}
+            </div>
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center justify-between">
+                <span>Layout (ForceAtlas2)</span>
+                <div className="flex gap-1">
+                  {layoutInfo?.running ? (
+                    <button onClick={stopLayout} className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700">Stop</button>
+                  ) : (
+                    <button onClick={() => startLayout()} className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700" title="Re-layout the nodes that pass the current filters">Start</button>
+                  )}
+                  <button onClick={resetLayout} disabled={!layoutInfo} className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700 disabled:opacity-50">Reset</button>
+                </div>
+              </div>
+              {layoutInfo && (
+                <span className="text-xs text-gray-300">{layoutInfo.running ? 'Running' : 'Stopped'} on {layoutInfo.nodes} nodes, {layoutInfo.edges} edges</span>
+              )}
+              <div className="grid grid-cols-3 gap-1 text-xs">
+                {([['gravity', 'Gravity', 0.1, 0], ['scalingRatio', 'Scaling', 0.5, 0], ['slowDown', 'Slow down', 1, 0.1]] as const).map(([key, label, step, min]) => (
+                  <label key={key} className="flex flex-col gap-0.5">
+                    <span className="text-gray-300">{label}</span>
+                    <input
+                      type="number"
+                      min={min}
+                      step={step}
+                      value={Number(layoutSettings[key].toFixed(2))}
+                      onChange={(e) => { const v = Number(e.target.value); if (Number.isFinite(v) && v >= min) updateLayoutSettings({[key]: v}); }}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-1 py-0.5"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-3 text-xs">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={layoutSettings.linLogMode} onChange={(e) => updateLayoutSettings({linLogMode: e.target.checked})} />
+                  LinLog
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={layoutSettings.barnesHutOptimize} onChange={(e) => updateLayoutSettings({barnesHutOptimize: e.target.checked})} />
+                  Barnes-Hut
+                </label>
+              </div>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span>Export</span>
+              <div className="flex flex-wrap gap-1">
+                {([['png', 'PNG'], ['svg', 'SVG'], ['gexf', 'GEXF'], ['graphml', 'GraphML'], ['nodes.csv', 'Nodes CSV'], ['edges.csv', 'Edges CSV']] as const).map(([fmt, label]) => (
+                  <button key={fmt} onClick={() => exportView(fmt)} className="px-2 py-0.5 text-xs rounded border border-gray-600 hover:bg-gray-700">{label}</button>
+                ))}
+              </div>
+              {exportError && <span className="text-xs text-red-300">{exportError}</span>}
+            </div>
             {geneInfo && (
               <div className="mt-1 rounded-md border border-gray-700 bg-gray-900/70 p-2">
                 <div className="text-xs text-gray-300">
@@ -1863,6 +2453,21 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
         )}
       </div>
       <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 bg-gray-800/90 text-white backdrop-blur rounded-md border border-gray-700 px-3 py-2 flex items-center gap-4 shadow">
+        {datasets.length > 0 && (
+          <select
+            aria-label="Dataset"
+            value={datasetId || ''}
+            onChange={(e) => { setGeneInfo(null); setDatasetError(''); if (e.target.value === compareId) setCompareId(null); setDatasetId(e.target.value); }}
+            className="border rounded px-2 py-1 text-sm max-w-56 bg-white text-gray-900"
+            title={dataset?.description || dataset?.name}
+          >
+            {datasets.map((d) => (
+              <option key={d.id} value={d.id} disabled={viewMode === 'locality' && !d.views.includes('locality')}>
+                {d.name}{d.organism !== DEFAULT_ORGANISM ? ` (${d.organism})` : ''}
+              </option>
+            ))}
+          </select>
+        )}
         <div className="relative">
           <input
             value={searchQuery}
@@ -1878,19 +2483,39 @@ export default function GraphViewer({ initialViewMode }: { initialViewMode?: 'de
           {searchQuery && searchMatches.length > 0 && (
             <div className="absolute mt-1 w-56 max-h-56 overflow-auto bg-white border border-gray-300 rounded shadow z-10">
               {searchMatches.map((m) => (
-                <button
-                  key={m.id}
-                  className="block w-full text-left px-2 py-1 hover:bg-gray-200 text-sm text-gray-900"
-                  onClick={() => focusById(m.id)}
-                >
-                  {m.name}
-                </button>
+                <div key={m.id} className="flex items-center hover:bg-gray-200">
+                  <button
+                    className="flex-1 min-w-0 truncate text-left px-2 py-1 text-sm text-gray-900"
+                    onClick={() => focusById(m.id)}
+                  >
+                    {m.name}
+                  </button>
+                  <button
+                    className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900"
+                    title="Add to the path finder"
+                    onClick={() => addPathEnd(m.id, m.name)}
+                  >
+                    + path
+                  </button>
+                </div>
               ))}
             </div>
           )}
         </div>
       </div>
       <div ref={containerRef} className="absolute inset-0" />
+      {loadProgress && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+          <div className="w-64 rounded-md border border-gray-700 bg-gray-800/90 px-4 py-3 text-sm text-white shadow">
+            <div className="mb-2">
+              Loading graph… {loadProgress.total ? `${Math.min(100, Math.round((loadProgress.loaded / loadProgress.total) * 100))}%` : `${(loadProgress.loaded / 1e6).toFixed(1)} MB`}
+            </div>
+            <div className="h-1.5 w-full overflow-hidden rounded bg-gray-700">
+              <div className="h-full bg-blue-500" style={{width: loadProgress.total ? `${Math.min(100, (loadProgress.loaded / loadProgress.total) * 100)}%` : '100%'}} />
+            </div>
+          </div>
+        </div>
+      )}
       <canvas ref={fallbackCanvasRef} className="absolute inset-0" style={{display: "none"}} />
     </div>
   );
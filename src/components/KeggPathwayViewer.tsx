@@ -3,6 +3,10 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import cytoscape from "cytoscape";
 import popper from "cytoscape-popper";
+import type { KgmlPathway } from "../../lib/kgml";
+import { exportFigure, prefersDarkFigure, type LegendItem } from "../../lib/cyExport";
+import { pathwayOrganism, orgGeneIds, DEFAULT_ORGANISM } from "../../lib/organisms";
+import { mapOverlayToRelations, scaleColor, stripeSvg, DEFAULT_COLOR_SCALE, type ColorScale, type OverlayMapping, type OverlayNode, type OverlayTable } from "../../lib/overlay";
 
 // The cytoscape-popper types are slightly mismatched with Cytoscape's Ext signature
 // in our environment; cast to any to safely register the extension.
@@ -10,8 +14,9 @@ import popper from "cytoscape-popper";
 cytoscape.use((popper as unknown) as any);
 
 const API_BASE = '';
-const KEGG_KGML = (id: string) => `/api/kegg/${id}/kgml`;
+const KEGG_PATHWAY = (id: string) => `/api/kegg/${id}/pathway`;
 const KEGG_BULK_GENES = (geneIdList: string[]) => `/api/kegg/genes/${geneIdList.join(',')}`;
+const GENE_REQUEST_CHUNK = 200;
 
 type GeneData = {
   symbol: string;
@@ -84,9 +89,11 @@ function parseKeggGeneEntry(geneEntry: string, geneId: string, fallbackName: str
     if (ensemblMatch) data.ensemblId = ensemblMatch[1];
   }
 
-  const pathwayMatches = geneEntry.match(/^\s+hsa\d+\s+(.+)$/gm);
+  // PATHWAY lines name maps of the gene's own organism ("hsa04010", "sce04111")
+  const org = geneId.split(':')[0];
+  const pathwayMatches = geneEntry.match(new RegExp(`^(?:PATHWAY)?\\s+${org}\\d{5}\\s+(.+)$`, 'gm'));
   if (pathwayMatches) {
-    data.pathways = pathwayMatches.map(match => match.trim().replace(/^hsa\d+\s+/, '')).slice(0, 10);
+    data.pathways = pathwayMatches.map(match => match.replace(/^(?:PATHWAY)?\s+[a-z]+\d{5}\s+/, '').trim()).slice(0, 10);
   }
 
   const diseaseSectionMatch = geneEntry.match(/^DISEASE\s+([\s\S]*?)^[A-Z]/m);
@@ -107,14 +114,14 @@ function parseKeggGeneEntry(geneEntry: string, geneId: string, fallbackName: str
   return data;
 }
 
-async function getBulkStandardizedGeneNames(geneNodes: cytoscape.CollectionReturnValue, entries: Record<string, any>) {
+async function getBulkStandardizedGeneNames(geneNodes: cytoscape.CollectionReturnValue, entries: Record<string, any>, org: string) {
   const uniqueGeneIds = new Set<string>();
   const geneIdToNodeMap = new Map<string, {node: cytoscape.NodeSingular; fallbackName: string}>();
 
   geneNodes.forEach(node => {
     const keggId: string | undefined = node.data('keggId');
     if (!keggId) return;
-    const geneIds = keggId.split(/\s+/).filter(id => id.includes(':') && id.startsWith('hsa:') && id.match(/^hsa:\d+$/));
+    const geneIds = orgGeneIds(keggId, org);
     if (geneIds.length === 0) return;
     geneIds.forEach(geneId => {
       if (geneNameCache.has(geneId)) return;
@@ -126,47 +133,48 @@ async function getBulkStandardizedGeneNames(geneNodes: cytoscape.CollectionRetur
   if (uniqueGeneIds.size === 0) return;
   const geneIdList = Array.from(uniqueGeneIds);
 
-  try {
-    const apiUrl = KEGG_BULK_GENES(geneIdList);
-    const response = await fetch(apiUrl);
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-    const bulkData = await response.text();
-    if (bulkData.length === 0 || !bulkData.includes('ENTRY')) return;
-    const geneEntries = bulkData.split(/\n\/\/\/\n|\n\/\/\/$/);
-    let updatedCount = 0;
-    geneEntries.forEach((geneEntry) => {
-      if (!geneEntry.trim()) return;
-      const entryMatch = geneEntry.match(/^ENTRY\s+(\d+)/m);
-      if (!entryMatch) return;
-      const geneNumber = entryMatch[1];
-      const fullGeneId = `hsa:${geneNumber}`;
-      const nodeInfo = geneIdToNodeMap.get(fullGeneId);
-      if (!nodeInfo) {
-        const geneData = parseKeggGeneEntry(geneEntry, fullGeneId, fullGeneId);
+  // The proxy batches for KEGG; chunking here only keeps request URLs short
+  for (let i = 0; i < geneIdList.length; i += GENE_REQUEST_CHUNK) {
+    const chunk = geneIdList.slice(i, i + GENE_REQUEST_CHUNK);
+    try {
+      const apiUrl = KEGG_BULK_GENES(chunk);
+      const response = await fetch(apiUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const bulkData = await response.text();
+      if (bulkData.length === 0 || !bulkData.includes('ENTRY')) continue;
+      const geneEntries = bulkData.split(/\n\/\/\/\n|\n\/\/\/$/);
+      geneEntries.forEach((geneEntry) => {
+        if (!geneEntry.trim()) return;
+        const entryMatch = geneEntry.match(/^ENTRY\s+(\S+)/m);
+        if (!entryMatch) return;
+        const fullGeneId = `${org}:${entryMatch[1]}`;
+        const nodeInfo = geneIdToNodeMap.get(fullGeneId);
+        if (!nodeInfo) {
+          const geneData = parseKeggGeneEntry(geneEntry, fullGeneId, fullGeneId);
+          geneNameCache.set(fullGeneId, geneData);
+          return;
+        }
+        const geneData = parseKeggGeneEntry(geneEntry, fullGeneId, nodeInfo.fallbackName);
         geneNameCache.set(fullGeneId, geneData);
-        return;
-      }
-      const geneData = parseKeggGeneEntry(geneEntry, fullGeneId, nodeInfo.fallbackName);
-      geneNameCache.set(fullGeneId, geneData);
-      const nodeKeggId = nodeInfo.node.data('keggId') as string | undefined;
-      const primaryGeneId = nodeKeggId ? nodeKeggId.split(/\s+/)[0] : '';
-      const isPrimaryGene = fullGeneId === primaryGeneId;
-      if (isPrimaryGene) {
-        nodeInfo.node.data('geneData', geneData);
-        entries[nodeInfo.node.id()].geneData = geneData;
-        if (geneData.symbol !== nodeInfo.fallbackName) {
-          nodeInfo.node.data('label', geneData.symbol);
-          nodeInfo.node.data('name', geneData.symbol);
-          entries[nodeInfo.node.id()].name = geneData.symbol;
-          updatedCount++;
+        const nodeKeggId = nodeInfo.node.data('keggId') as string | undefined;
+        const primaryGeneId = nodeKeggId ? nodeKeggId.split(/\s+/)[0] : '';
+        const isPrimaryGene = fullGeneId === primaryGeneId;
+        if (isPrimaryGene) {
+          nodeInfo.node.data('geneData', geneData);
+          entries[nodeInfo.node.id()].geneData = geneData;
+          if (geneData.symbol !== nodeInfo.fallbackName) {
+            nodeInfo.node.data('label', geneData.symbol);
+            nodeInfo.node.data('name', geneData.symbol);
+            entries[nodeInfo.node.id()].name = geneData.symbol;
+          }
         }
-      }
-    });
-  } catch (error) {
-    geneIdList.forEach(geneId => {
-      const nodeInfo = geneIdToNodeMap.get(geneId);
-      if (nodeInfo) geneNameCache.set(geneId, parseKeggGeneEntry('', geneId, nodeInfo.fallbackName));
-    });
+      });
+    } catch (error) {
+      chunk.forEach(geneId => {
+        const nodeInfo = geneIdToNodeMap.get(geneId);
+        if (nodeInfo) geneNameCache.set(geneId, parseKeggGeneEntry('', geneId, nodeInfo.fallbackName));
+      });
+    }
   }
 }
 
@@ -187,35 +195,31 @@ function getGroupLabel(groupId: string, componentIds: string[]) {
   return componentIds.length > 1 ? "Complex" : "Group";
 }
 
-function parseKgmlToCyElements(xmlStr: string) {
-  const doc = new DOMParser().parseFromString(xmlStr, "text/xml");
-  const mapW = parseInt(doc.documentElement.getAttribute("width") || "1200", 10);
-  const mapH = parseInt(doc.documentElement.getAttribute("height") || "800", 10);
+// Cytoscape elements from the parsed pathway served by /api/kegg/[pathwayId]/pathway
+function kgmlToCyElements(pathway: KgmlPathway) {
+  const mapW = pathway.width || 1200;
+  const mapH = pathway.height || 800;
 
   const entries: Record<string, any> = {};
   const nodes: any[] = [];
-  const groups = new Map<string, string[]>();
 
-  doc.querySelectorAll("entry").forEach((e) => {
-    const id = e.getAttribute("id") || '';
-    const type = e.getAttribute("type") || "";
-    const name = e.getAttribute("name") || "";
-    const g = e.querySelector("graphics");
+  pathway.entries.forEach((e) => {
+    const { id, type, name } = e;
+    const g = e.graphics[0];
     let x = 0, y = 0, w = 60, h = 20, rawLabel = name, displayLabel = name;
     let bgcolor = "#FFFFFF", fgcolor = "#000000", shape = "rectangle";
     if (g) {
-      x = Math.round(parseFloat(g.getAttribute("x") || "0"));
-      y = Math.round(parseFloat(g.getAttribute("y") || "0"));
-      w = Math.round(parseFloat(g.getAttribute("width") || "60"));
-      h = Math.round(parseFloat(g.getAttribute("height") || "20"));
-      rawLabel = g.getAttribute("name") || name;
-      bgcolor = g.getAttribute("bgcolor") || bgcolor;
-      fgcolor = g.getAttribute("fgcolor") || fgcolor;
-      shape = g.getAttribute("type") || shape;
+      x = Math.round(g.x);
+      y = Math.round(g.y);
+      w = Math.round(g.width);
+      h = Math.round(g.height);
+      rawLabel = g.name || name;
+      bgcolor = g.bgcolor;
+      fgcolor = g.fgcolor;
+      shape = g.type;
     }
     if (type === "group") {
-      const components = Array.from(e.querySelectorAll("component")).map(c => c.getAttribute("id") || '');
-      groups.set(id, components);
+      const components = e.components;
       displayLabel = getGroupLabel(id, components);
       bgcolor = "#E0E0E0";
       entries[id] = { x, y, w, h, type, name: displayLabel, rawName: rawLabel, keggId: name, bgcolor, fgcolor, shape, components };
@@ -228,19 +232,17 @@ function parseKgmlToCyElements(xmlStr: string) {
   });
 
   const edges: any[] = [];
-  doc.querySelectorAll("relation").forEach((r, i) => {
-    const source = r.getAttribute("entry1") || '';
-    const target = r.getAttribute("entry2") || '';
-    const relType = r.getAttribute("type") || "PPrel";
+  pathway.relations.forEach((r, i) => {
+    const source = r.entry1;
+    const target = r.entry2;
+    const relType = r.type || "PPrel";
     let subtype = "interaction";
     let arrowStyle = "triangle";
     let isInhibition = false;
     let edgeLabel = "";
     let lineStyle = "solid";
     const modifications: string[] = [];
-    const subtypes = r.querySelectorAll("subtype");
-    subtypes.forEach(st => {
-      const name = st.getAttribute("name") || "";
+    r.subtypes.forEach(({ name }) => {
       if (name.includes("inhibition")) { isInhibition = true; arrowStyle = "tee"; }
       else if (name.includes("activation")) { arrowStyle = "triangle"; }
       else if (name.includes("binding")) { arrowStyle = "none"; lineStyle = "dashed"; }
@@ -253,13 +255,18 @@ function parseKgmlToCyElements(xmlStr: string) {
       if (!subtype || subtype === "interaction") subtype = name;
     });
     if (modifications.length > 0) edgeLabel = modifications.join(" ");
-    const id = r.getAttribute("id") || `${source}_${target}_${i}`;
+    const id = `${source}_${target}_${i}`;
     edges.push({ data: { id, source, target, subtype, relType, arrowStyle, isInhibition, edgeLabel, lineStyle, modifications } });
   });
 
   return { nodes, edges, mapW, mapH, entries };
 }
 
+// Default edgeOverlay; a fresh {} per render would re-run the load effect that depends on it
+const EMPTY_OVERLAY: Record<string, number> = {};
+
+const fmtTick = (v: number) => String(Math.round(v * 100) / 100);
+
 function divergingColor(v: number) {
   const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
   const t = clamp((v + 1) / 2, 0, 1);
@@ -269,7 +276,7 @@ function divergingColor(v: number) {
   return `rgb(${r},${g},${b})`;
 }
 
-export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay = {}, showNodeLabels = true, onProteinSet, selectedSymbols, onSelectSymbols, selectedEdge, onSelectEdge }: {pathwayId?: string; edgeOverlay?: Record<string, number>; showNodeLabels?: boolean; onProteinSet?: (payload: {geneIds: string[]; symbols: string[]}) => void; selectedSymbols?: string[]; onSelectSymbols?: (symbols: string[]) => void; selectedEdge?: {left: string[]; right: string[]}; onSelectEdge?: (pair: {left: string[]; right: string[]}) => void}) {
+export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay = EMPTY_OVERLAY, overlayTable = null, onOverlayMapped, nodeOverlay, colorScale = DEFAULT_COLOR_SCALE, condition = 0, showNodeLabels = true, onProteinSet, selectedSymbols, onSelectSymbols, selectedEdge, onSelectEdge }: {pathwayId?: string; edgeOverlay?: Record<string, number>; overlayTable?: OverlayTable | null; onOverlayMapped?: (mapping: OverlayMapping | null) => void; nodeOverlay?: Record<string, number>; colorScale?: ColorScale; condition?: number; showNodeLabels?: boolean; onProteinSet?: (payload: {geneIds: string[]; symbols: string[]}) => void; selectedSymbols?: string[]; onSelectSymbols?: (symbols: string[]) => void; selectedEdge?: {left: string[]; right: string[]}; onSelectEdge?: (pair: {left: string[]; right: string[]}) => void}) {
   const cyRef = useRef<cytoscape.Core | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [status, setStatus] = useState("Loading KGML…");
@@ -278,15 +285,29 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
   const tooltipLayerRef = useRef<HTMLDivElement | null>(null);
   const selectedLowerRef = useRef<Set<string>>(new Set());
   const [toast, setToast] = useState<string>("");
+  // Uploaded overlay mapped onto this drawing; explicit edgeOverlay keys take precedence
+  const mappedOverlayRef = useRef<Record<string, number>>({});
+  const mappedScaleRef = useRef(1);
+  const [namesVersion, setNamesVersion] = useState(0);
+  // Gene ids in the drawing are prefixed with the pathway's organism code
+  const org = pathwayOrganism(pathwayId) || DEFAULT_ORGANISM;
+  const overlayValue = (ele: any): number | undefined => {
+    const k = `${ele.data("source")}|${ele.data("target")}`;
+    const v = (edgeOverlay as any)[k];
+    return v === undefined || v === null ? mappedOverlayRef.current[k] : v;
+  };
 
   useEffect(() => {
     let cancelled = false;
     async function run() {
       try {
         setStatus("Fetching KGML…");
-        const res = await fetch(KEGG_KGML(pathwayId));
-        const xml = await res.text();
-        const { nodes, edges, mapW, mapH, entries } = parseKgmlToCyElements(xml);
+        // Overlay keys are KGML entry ids of the previous drawing until remapped
+        mappedOverlayRef.current = {};
+        const res = await fetch(KEGG_PATHWAY(pathwayId));
+        const body = await res.json().catch(() => null);
+        if (!res.ok) throw new Error(body?.error || `HTTP ${res.status}`);
+        const { nodes, edges, mapW, mapH, entries } = kgmlToCyElements(body as KgmlPathway);
         if (cancelled) return;
         setMapDims({ w: mapW, h: mapH });
         const prefersDark = typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia('(prefers-color-scheme: dark)').matches;
@@ -322,18 +343,20 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
             }},
             { selector: "node[type='gene']", style: { "background-color": "#BFFFBF", "font-size": 9 } },
             { selector: "node[type='compound']", style: { "background-color": "#FFFFFF", shape: "ellipse" } },
+            // node overlay: one vertical slice per gene of the box, painted from nodeOverlay below
+            { selector: "node[overlaySvg]", style: { "background-image": "data(overlaySvg)", "background-fit": "none", "background-width": "100%", "background-height": "100%", "background-clip": "node" } },
             // cross-highlight style
             { selector: "node.xhl", style: { "border-width": 3, "border-color": "#f59e0b", "background-color": "#fde68a" } },
             { selector: "node[type='map']", style: { "background-color": "#FFFFFF", "border-color": "#666", "border-width": 1, shape: "round-rectangle", "font-size": 9, "font-weight": "bold", "text-valign": "center", "text-halign": "center", "text-wrap": "wrap", "text-max-width": (ele: any) => (entries[ele.id()]?.w || 90) - 6, color: labelTextColor } },
-            { selector: "node[name='path:hsa04150']", style: { "background-color": "#F0F8FF", "border-color": "#4682B4", "border-width": 2, "font-size": 12, "font-weight": "bold", color: "#000080" } },
+            { selector: `node[name='path:${pathwayId.toLowerCase()}']`, style: { "background-color": "#F0F8FF", "border-color": "#4682B4", "border-width": 2, "font-size": 12, "font-weight": "bold", color: "#000080" } },
             { selector: "node[type='group']", style: { "background-color": "#E0E0E0", "border-color": "#888", "border-width": 2, shape: "round-rectangle", "font-size": 10, "font-weight": "bold", "text-valign": "center", "text-halign": "center" } },
             { selector: "edge", style: {
               "curve-style": "straight",
-              width: (ele: any) => { const k = `${ele.data("source")}|${ele.data("target")}`; const v = (edgeOverlay as any)[k]; const base = 2; if (v === undefined || v === null) return base; return base + 3 * Math.min(1, Math.abs(v)); },
-              "line-color": (ele: any) => { const k = `${ele.data("source")}|${ele.data("target")}`; const v = (edgeOverlay as any)[k]; return v === undefined ? "#666" : divergingColor(v); },
+              width: (ele: any) => { const v = overlayValue(ele); const base = 2; if (v === undefined) return base; return base + 3 * Math.min(1, Math.abs(v)); },
+              "line-color": (ele: any) => { const v = overlayValue(ele); return v === undefined ? "#666" : divergingColor(v); },
               "line-style": (ele: any) => ele.data("lineStyle") || "solid",
               "target-arrow-shape": (ele: any) => ele.data("arrowStyle") || "triangle",
-              "target-arrow-color": (ele: any) => { const k = `${ele.data("source")}|${ele.data("target")}`; const v = (edgeOverlay as any)[k]; return v === undefined ? "#666" : divergingColor(v); },
+              "target-arrow-color": (ele: any) => { const v = overlayValue(ele); return v === undefined ? "#666" : divergingColor(v); },
               "source-arrow-shape": "none",
               label: (ele: any) => ele.data("edgeLabel") || "",
               "font-size": "10px",
@@ -431,7 +454,7 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
           const nodeType = n.data("type");
           let multipleGenes: Array<{keggId: string; geneData: GeneData | null}> = [];
           if (nodeType === "gene" && n.data("keggId")) {
-            const geneIds = (n.data("keggId") as string).split(/\s+/).filter(id => id.startsWith('hsa:'));
+            const geneIds = orgGeneIds(n.data("keggId") as string, org);
             if (geneIds.length > 1) {
               multipleGenes = geneIds.map(geneId => ({ keggId: geneId, geneData: geneNameCache.get(geneId) || null }));
             }
@@ -480,13 +503,16 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
         cy.pan({ x: currentPan.x + panAdjustmentX, y: currentPan.y + panAdjustmentY });
         cyRef.current = cy;
         setStatus("");
+        // Overlays, selections and node painting key off namesVersion: remap them onto the new
+        // elements now, and again once gene names are known (if the lookup succeeds at all)
+        setNamesVersion((v) => v + 1);
         setTimeout(async () => {
           if (cancelled) return;
           setStatus("Fetching gene names...");
           const geneNodes = cy.nodes().filter(node => node.data('type') === 'gene');
           if (geneNodes.length === 0) { setStatus(""); return; }
           try {
-            await getBulkStandardizedGeneNames(geneNodes, entries);
+            await getBulkStandardizedGeneNames(geneNodes, entries, org);
             if (!cancelled) setStatus("");
           } catch {
             if (!cancelled) setStatus("");
@@ -504,7 +530,7 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
               geneNodes.forEach((n) => {
                 const keggId: string | undefined = n.data('keggId');
                 if (!keggId) return;
-                const ids = keggId.split(/\s+/).filter(id => id.startsWith('hsa:'));
+                const ids = orgGeneIds(keggId, org);
                 for (const id of ids) allGeneIds.push(id);
                 const nodeNames: Set<string> = new Set();
                 ids.forEach((gid) => {
@@ -528,12 +554,13 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
               });
               const uniqIds = Array.from(new Set(allGeneIds));
               const uniqNames = Array.from(allNames);
-              if (!cancelled) { onProteinSet && onProteinSet({geneIds: uniqIds, symbols: uniqNames}); }
+              if (!cancelled) onProteinSet && onProteinSet({geneIds: uniqIds, symbols: uniqNames});
             } catch {}
+            if (!cancelled) setNamesVersion((v) => v + 1);
           }
         }, 100);
       } catch (err) {
-        setStatus("Failed to load KGML. (CORS? Try the proxy below.)");
+        setStatus(`Failed to load KGML${err instanceof Error ? `: ${err.message}` : '.'}`);
         console.error(err);
       }
     }
@@ -541,7 +568,93 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
     return () => { cancelled = true; cyRef.current?.destroy(); };
   }, [pathwayId, showNodeLabels, edgeOverlay]);
 
-  // Cross-highlight when selectedSymbols from parent change
+  // Map the uploaded overlay once gene symbols are known, then restyle edges in place
+  React.useEffect(() => {
+    const cy = cyRef.current as any;
+    if (!cy) return;
+    try {
+      let mapping: OverlayMapping | null = null;
+      if (overlayTable) {
+        const nodes: OverlayNode[] = cy.nodes().map((n: any) => {
+          const keggIds = ((n.data('keggId') as string) || '').split(/\s+/).filter(Boolean);
+          return {
+            id: n.id(),
+            names: [
+              ...keggIds,
+              ...keggIds.map((k) => k.split(':')[1]).filter(Boolean),
+              ...(((n.data('symbols') as string[]) || [])),
+              (n.data('label') as string) || '',
+            ].filter(Boolean),
+            components: n.data('components') as string[] | undefined,
+          };
+        });
+        const relations = cy.edges().map((e: any) => ({ source: e.data('source') as string, target: e.data('target') as string }));
+        mapping = mapOverlayToRelations(overlayTable, nodes, relations, condition);
+      }
+      mappedOverlayRef.current = mapping ? mapping.values : {};
+      mappedScaleRef.current = mapping && mapping.maxAbs > 1 ? mapping.maxAbs : 1;
+      cy.style().update();
+      onOverlayMapped && onOverlayMapped(mapping);
+    } catch {}
+  }, [overlayTable, condition, namesVersion]);
+
+  // Overlay rows for each gene of a box, for the side panel's per-condition table
+  const overlayRowsFor = (keggId: string | undefined) => {
+    if (!overlayTable || overlayTable.kind !== 'gene' || !keggId) return [];
+    const byName = new Map(overlayTable.rows.map((r) => [r.a.toLowerCase(), r]));
+    return orgGeneIds(keggId, org).flatMap((gid) => {
+      const gd = geneNameCache.get(gid);
+      const keys = [gid, gid.split(':')[1], ...(gd ? [gd.symbol, ...gd.synonyms] : [])];
+      const row = keys.map((k) => byName.get((k || '').toLowerCase())).find(Boolean);
+      return row ? [{ gene: gd?.symbol || gid, values: row.values }] : [];
+    });
+  };
+
+  async function exportDiagram(format: 'svg' | 'png') {
+    const cy = cyRef.current;
+    if (!cy) return;
+    const legend: LegendItem[] = [];
+    const hasEdgeValues = Object.keys(edgeOverlay).length > 0 || Object.keys(mappedOverlayRef.current).length > 0;
+    if (hasEdgeValues) {
+      const m = fmtTick(mappedScaleRef.current);
+      legend.push({ label: overlayTable ? `Edge values (${overlayTable.conditions[condition]})` : 'Edge values', gradient: [divergingColor(-1), divergingColor(0), divergingColor(1)], ticks: [`-${m}`, '0', `+${m}`] });
+    }
+    if (nodeOverlay && Object.keys(nodeOverlay).length) {
+      legend.push({ label: overlayTable ? `Gene values (${overlayTable.conditions[condition]})` : 'Gene values', gradient: [colorScale.lowColor, colorScale.midColor, colorScale.highColor], ticks: [colorScale.min, colorScale.center, colorScale.max].map(fmtTick) });
+    }
+    if (cy.elements('.xhl').length) legend.push({ label: 'Selected', color: '#f59e0b', shape: 'box' });
+    try {
+      await exportFigure(cy, format, `${pathwayId}${overlayTable ? `_${overlayTable.conditions[condition]}` : ''}`, { title: `KEGG ${pathwayId}`, legend, ...prefersDarkFigure() });
+    } catch (err) {
+      setToast(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  // Paint gene boxes from the node overlay (keys: symbols or KEGG gene ids, any case)
+  React.useEffect(() => {
+    const cy = cyRef.current as any;
+    if (!cy) return;
+    try {
+      const values = new Map(Object.entries(nodeOverlay || {}).map(([k, v]) => [k.toLowerCase(), v]));
+      cy.nodes().forEach((n: any) => {
+        const keggIds = n.data('type') === 'gene' ? orgGeneIds((n.data('keggId') as string) || '', org) : [];
+        const slices = values.size ? keggIds.map((gid) => {
+          const gd = geneNameCache.get(gid);
+          const keys = [gid, gid.split(':')[1], ...(gd ? [gd.symbol, ...gd.synonyms] : [])];
+          for (const k of keys) {
+            const v = values.get((k || '').toLowerCase());
+            if (v !== undefined) return scaleColor(v, colorScale);
+          }
+          return null;
+        }) : [];
+        if (slices.some((c) => c !== null)) n.data('overlaySvg', stripeSvg(slices, n.data('bgcolor') || '#BFFFBF'));
+        else if (n.data('overlaySvg')) n.removeData('overlaySvg');
+      });
+    } catch {}
+  }, [nodeOverlay, colorScale, namesVersion]);
+
+  // Cross-highlight when selectedSymbols from parent change, or once gene names arrive
+  // (a selection restored from the URL is set before the drawing has loaded)
   React.useEffect(() => {
     const cy = cyRef.current as any;
     if (!cy) return;
@@ -559,7 +672,7 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
       const anyMatch = cy.nodes('.xhl').length > 0;
       setToast(anyMatch ? '' : 'Not found in pathway drawing');
     } catch {}
-  }, [selectedSymbols?.join(',')]);
+  }, [selectedSymbols?.join(','), namesVersion]);
 
   // Edge cross-highlight from parent
   React.useEffect(() => {
@@ -601,13 +714,17 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
       const anyMatch = cy.edges('.xhl').length > 0;
       setToast(anyMatch ? '' : 'Edge not found in pathway drawing');
     } catch {}
-  }, [selectedEdge ? `${(selectedEdge.left||[]).join(',')}|${(selectedEdge.right||[]).join(',')}` : '']);
+  }, [selectedEdge ? `${(selectedEdge.left||[]).join(',')}|${(selectedEdge.right||[]).join(',')}` : '', namesVersion]);
 
   return (
     <div className="w-full">
       <div className="flex gap-3 items-center mb-4">
         <div className="text-sm font-semibold text-gray-700 dark:text-gray-200">Pathway: {pathwayId}</div>
         {status && <div className="text-sm text-amber-700 font-medium">{status}</div>}
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => exportDiagram('svg')} className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700">Export SVG</button>
+          <button onClick={() => exportDiagram('png')} className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700">Export PNG</button>
+        </div>
       </div>
       <div className="flex justify-center overflow-auto relative">
         <div ref={containerRef} className="rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 shadow" style={{ width: mapDims.w, height: mapDims.h }} />
@@ -628,6 +745,37 @@ export default function KeggPathwayViewer({ pathwayId = "hsa04150", edgeOverlay
               <span className="font-medium">Type:</span>
               <span className="ml-2 px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded text-xs">{sideInfo.type || "-"}</span>
             </div>
+            {(() => {
+              const rows = sideInfo.type === "gene" ? overlayRowsFor(sideInfo.keggId) : [];
+              if (!rows.length || !overlayTable) return null;
+              return (
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="text-left pr-3 font-medium">Gene</th>
+                        {overlayTable.conditions.map((c, i) => (
+                          <th key={c} className={`px-2 font-medium ${i === condition ? 'bg-amber-100 dark:bg-amber-900/40' : ''}`}>{c}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((r) => (
+                        <tr key={r.gene}>
+                          <td className="pr-3">{r.gene}</td>
+                          {r.values.map((v, i) => (
+                            <td key={i} className={`px-2 text-center font-mono ${i === condition ? 'bg-amber-100 dark:bg-amber-900/40 font-semibold' : ''}`}>
+                              <span className="inline-block w-2 h-2 rounded-sm mr-1 align-middle" style={{ background: Number.isFinite(v) ? scaleColor(v, colorScale) : 'transparent' }} />
+                              {Number.isFinite(v) ? v.toFixed(2) : '–'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })()}
             {(() => {
               if (sideInfo.type === "gene" && (sideInfo.multipleGenes?.length > 0 || sideInfo.geneData)) {
                 if (sideInfo.multipleGenes && sideInfo.multipleGenes.length > 1) {
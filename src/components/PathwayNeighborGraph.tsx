@@ -2,13 +2,15 @@
 
 import React from "react";
 import cytoscape from "cytoscape";
+import { exportFigure, prefersDarkFigure, type LegendItem } from "../../lib/cyExport";
 
-type GraphJson = {
-  nodes: Array<{id: string; label?: string}>;
-  edges: Array<{id: string; source: string; target: string; allDBs?: string}>;
+type NeighborJson = {
+  nodes: Array<{id: string; label: string; isProtein: boolean}>;
+  edges: Array<{id: string; source: string; target: string; allDBs: string; afmprob?: number}>;
+  meta: {truncated: boolean; unmatched: string[]};
 };
 
-export default function PathwayNeighborGraph({ proteinSymbols, className, selectedSymbols, onSelectSymbols, selectedEdge, onSelectEdge, version, pathwayId }: { proteinSymbols: string[]; className?: string; selectedSymbols?: string[]; onSelectSymbols?: (symbols: string[]) => void; selectedEdge?: {left: string[]; right: string[]}; onSelectEdge?: (pair: {left: string[]; right: string[]}) => void; version?: number; pathwayId?: string }) {
+export default function PathwayNeighborGraph({ proteinSymbols, className, selectedSymbols, onSelectSymbols, selectedEdge, onSelectEdge, version, pathwayId, depth = 1, minConfidence = 0, novelOnly = false, organism }: { proteinSymbols: string[]; className?: string; selectedSymbols?: string[]; onSelectSymbols?: (symbols: string[]) => void; selectedEdge?: {left: string[]; right: string[]}; onSelectEdge?: (pair: {left: string[]; right: string[]}) => void; version?: number; pathwayId?: string; depth?: number; minConfidence?: number; novelOnly?: boolean; organism?: string }) {
   const containerRef = React.useRef<HTMLDivElement | null>(null);
   const cyRef = React.useRef<cytoscape.Core | null>(null);
   const labelToIdRef = React.useRef<Map<string, string>>(new Map());
@@ -21,6 +23,8 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
   const lastZoomKeyRef = React.useRef<string>("");
   const lastZoomEdgeKeyRef = React.useRef<string>("");
   const [toast, setToast] = React.useState<string>("");
+  // Bumped after each build so selections set before the graph existed get applied
+  const [builtVersion, setBuiltVersion] = React.useState(0);
   const log = (...args: any[]) => {
     try { console.log('[NeighborGraph]', ...args); } catch {}
   };
@@ -63,7 +67,7 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
   React.useEffect(() => {
     let disposed = false;
     const myBuildId = ++buildIdRef.current;
-    const key = `${pathwayId || ''}:${version}`;
+    const key = `${pathwayId || ''}:${version}:${depth}:${minConfidence}:${novelOnly ? 1 : 0}:${organism || ''}`;
     log('effect start', {build: myBuildId, proteins: proteinSymbols?.length});
 
     if (disabledRef.current) {
@@ -145,40 +149,31 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
         const ac = new AbortController();
         fetchAbortRef.current = ac;
         log('fetch start', {build: myBuildId});
-        const res = await fetch("/graph.json", { cache: "no-store", signal: ac.signal });
-        const data: GraphJson = await res.json();
+        const res = await fetch("/api/neighbors", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ symbols: proteinSymbols, depth, minProb: minConfidence, novelOnly, organism }),
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (!res.ok) throw new Error(`neighbors ${res.status}`);
+        const data: NeighborJson = await res.json();
         if (disposed || myBuildId !== buildIdRef.current) { log('stale after fetch', {build: myBuildId}); isBuildingRef.current = false; if (globalObj) { try { globalObj.__neighborBuildLock.busy = false; } catch {} } return; }
-        log('fetch done', {build: myBuildId, nodes: data.nodes?.length, edges: data.edges?.length});
+        log('fetch done', {build: myBuildId, nodes: data.nodes?.length, edges: data.edges?.length, truncated: data.meta?.truncated});
 
-        // Map symbols -> node ids by matching label (case-insensitive). Fallback to id match.
         const labelToId = new Map<string, string>();
         for (const n of data.nodes) {
           if (n.label) labelToId.set((n.label + '').toLowerCase(), n.id);
         }
         labelToIdRef.current = labelToId;
-        const proteinNodeIds: string[] = [];
-        for (const s of proteinSymbols) {
-          const id = labelToId.get((s || '').toLowerCase()) || data.nodes.find(n => (n.id as any).toLowerCase?.() === (s || '').toLowerCase())?.id;
-          if (id) proteinNodeIds.push(id);
-        }
-        const proteinSet = new Set(proteinNodeIds);
-        const neighborSet = new Set<string>();
-        const nodeSet = new Set<string>();
-
-        // include proteins
-        for (const id of proteinNodeIds) nodeSet.add(id);
-        // include neighbors from edges touching proteins
-        for (const e of data.edges) {
-          if (proteinSet.has(e.source)) { neighborSet.add(e.target); nodeSet.add(e.target); }
-          if (proteinSet.has(e.target)) { neighborSet.add(e.source); nodeSet.add(e.source); }
-        }
-        // Build elements: nodes for nodeSet; edges only when at least one end is in proteinSet
-            const nodes = data.nodes
-              .filter(n => nodeSet.has(n.id))
-              .map(n => ({ data: { id: n.id, label: n.label || n.id, isProtein: proteinSet.has(n.id) ? 1 : 0 } }));
-            const edgesRaw = data.edges.filter(e => proteinSet.has(e.source) || proteinSet.has(e.target));
+        const proteinSet = new Set(data.nodes.filter(n => n.isProtein).map(n => n.id));
+        // Server returns the induced subgraph. Edges between two pathway proteins are drawn in
+        // full, protein–neighbor edges dimmed, and neighbor–neighbor edges (which hold the outer
+        // rings together when depth > 1) dimmed further.
+            const nodes = data.nodes.map(n => ({ data: { id: n.id, label: n.label || n.id, isProtein: n.isProtein ? 1 : 0 } }));
+            const edgesRaw = data.edges;
             const edges = edgesRaw.map(e => {
-              const neighborEdge = (proteinSet.has(e.source) && !proteinSet.has(e.target)) || (!proteinSet.has(e.source) && proteinSet.has(e.target)) ? 1 : 0;
+              const neighborEdge = 2 - (proteinSet.has(e.source) ? 1 : 0) - (proteinSet.has(e.target) ? 1 : 0);
               return { data: { id: e.id || `${e.source}-${e.target}`, source: e.source, target: e.target, allDBs: e.allDBs || '', isNeighborEdge: neighborEdge } };
             });
         const newNodeSet = new Set<string>();
@@ -244,6 +239,7 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
             { selector: 'edge.xhl', style: { width: 4, 'line-color': '#f59e0b' } },
                 { selector: 'edge[allDBs = "none"]', style: { 'line-color': '#3b82f6', width: 2 } },
                 { selector: 'edge[isNeighborEdge = 1]', style: { 'opacity': 0.25 } },
+                { selector: 'edge[isNeighborEdge = 2]', style: { 'opacity': 0.12 } },
           ] as any,
         });
         if (disposed || myBuildId !== buildIdRef.current) { try { cy.destroy(); } catch {}; log('stale after create, destroyed', {build: myBuildId}); isBuildingRef.current = false; if (globalObj) { try { globalObj.__neighborBuildLock.busy = false; } catch {} } return; }
@@ -268,6 +264,7 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
             if (n && n.nonempty()) n.addClass('new');
           });
         } catch {}
+        setBuiltVersion((v) => v + 1);
         cy.on('tap', 'node', (evt) => {
           try {
             const nm = (evt.target.data('label') as string) || '';
@@ -292,6 +289,7 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
       } catch (e) {
         isBuildingRef.current = false;
         if (globalObj) { try { globalObj.__neighborBuildLock.busy = false; } catch {} }
+        if (!disposed && (e as any)?.name !== 'AbortError') setToast('Failed to load neighbors');
       }
     }
     run();
@@ -304,7 +302,7 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
       isBuildingRef.current = false;
       try { if ((window as any).__neighborBuildLock?.inst === instanceIdRef.current) { (window as any).__neighborBuildLock.busy = false; } } catch {}
     };
-  }, [pathwayId, version]);
+  }, [pathwayId, version, depth, minConfidence, novelOnly, organism]);
 
   // Apply cross-highlight from parent selection
   React.useEffect(() => {
@@ -351,7 +349,7 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
         }
       }
     } catch {}
-  }, [selectedSymbols?.join(',')]);
+  }, [selectedSymbols?.join(','), builtVersion]);
 
   // Edge cross-highlight from parent
   React.useEffect(() => {
@@ -399,11 +397,33 @@ export default function PathwayNeighborGraph({ proteinSymbols, className, select
         } catch {}
       }
     } catch {}
-  }, [selectedEdge ? `${(selectedEdge.left||[]).join(',')}|${(selectedEdge.right||[]).join(',')}` : '']);
+  }, [selectedEdge ? `${(selectedEdge.left||[]).join(',')}|${(selectedEdge.right||[]).join(',')}` : '', builtVersion]);
+
+  async function exportGraph(format: 'svg' | 'png') {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return;
+    const dark = prefersDarkFigure();
+    const legend: LegendItem[] = [
+      { label: 'Pathway protein', color: '#9ca3af', shape: 'box' },
+      { label: 'Protein with novel interactions', color: '#3b82f6', shape: 'box' },
+      { label: 'Known interaction', color: dark.background === '#ffffff' ? '#9ca3af' : '#6b7280' },
+      { label: 'Novel interaction (allDBs = none)', color: '#3b82f6' },
+    ];
+    if (cy.elements('.xhl').length) legend.push({ label: 'Selected', color: '#f59e0b' });
+    try {
+      await exportFigure(cy, format, `${pathwayId || 'pathway'}_neighbors`, { title: `${pathwayId ? `${pathwayId} ` : ''}proteins + neighbors`, legend, ...dark });
+    } catch (err) {
+      setToast(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
 
   return (
     <div className={className} style={{ position: 'relative' }}>
       <div ref={containerRef} className="absolute inset-0" />
+      <div className="absolute left-3 top-3 z-10 flex gap-2">
+        <button onClick={() => exportGraph('svg')} className="px-2 py-1 text-xs bg-white/90 dark:bg-gray-900/90 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700">SVG</button>
+        <button onClick={() => exportGraph('png')} className="px-2 py-1 text-xs bg-white/90 dark:bg-gray-900/90 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-700">PNG</button>
+      </div>
       {toast ? (
         <div className="absolute right-3 top-3 z-10 bg-white/95 dark:bg-gray-900/95 border border-gray-200 dark:border-gray-700 rounded-md px-3 py-2 text-xs text-gray-800 dark:text-gray-100 shadow">
           {toast}
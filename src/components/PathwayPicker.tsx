@@ -0,0 +1,164 @@
+"use client";
+
+import React from "react";
+import type { PathwayInfo } from "../../lib/keggCatalog";
+
+const MAX_RESULTS = 50;
+
+// Rank typeahead matches: id or name prefix first, then word prefix, then substring
+function rankPathways(pathways: PathwayInfo[], query: string): PathwayInfo[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return pathways;
+  const scored: Array<[number, PathwayInfo]> = [];
+  for (const p of pathways) {
+    const id = p.id.toLowerCase();
+    const name = p.name.toLowerCase();
+    let score = -1;
+    if (id === q || id.endsWith(q)) score = 0;
+    else if (name.startsWith(q) || id.startsWith(q)) score = 1;
+    else if (name.split(/[\s/-]+/).some((w) => w.startsWith(q))) score = 2;
+    else if (name.includes(q) || id.includes(q)) score = 3;
+    else if (`${p.category || ""} ${p.subcategory || ""}`.toLowerCase().includes(q)) score = 4;
+    if (score >= 0) scored.push([score, p]);
+  }
+  return scored.sort((a, b) => a[0] - b[0] || a[1].name.localeCompare(b[1].name)).map(([, p]) => p);
+}
+
+export default function PathwayPicker({ value, onSelect, org = "hsa", className = "" }: { value: string; onSelect: (pathwayId: string) => void; org?: string; className?: string }) {
+  const [catalog, setCatalog] = React.useState<PathwayInfo[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const [query, setQuery] = React.useState("");
+  const [category, setCategory] = React.useState("");
+  const [open, setOpen] = React.useState(false);
+  const [active, setActive] = React.useState(0);
+  const [geneInput, setGeneInput] = React.useState("");
+  // Pathway ids containing the looked-up gene; null when no gene filter is set
+  const [geneFilter, setGeneFilter] = React.useState<{ gene: string; ids: Set<string> } | null>(null);
+  const [geneBusy, setGeneBusy] = React.useState(false);
+  const rootRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    fetch(`/api/kegg/pathways?org=${encodeURIComponent(org)}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body?.error || `Catalog request failed (${res.status})`);
+        if (!cancelled) setCatalog(body.pathways || []);
+      })
+      .catch((err) => { if (!cancelled) setError(err.message || "Could not load pathway catalog"); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [org]);
+
+  // Close the result list on outside clicks
+  React.useEffect(() => {
+    const onDown = (e: MouseEvent) => { if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false); };
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, []);
+
+  const categories = React.useMemo(() => Array.from(new Set(catalog.map((p) => p.category).filter((c): c is string => !!c))).sort(), [catalog]);
+  const current = React.useMemo(() => catalog.find((p) => p.id === value), [catalog, value]);
+  const results = React.useMemo(() => {
+    let list = catalog;
+    if (category) list = list.filter((p) => p.category === category);
+    if (geneFilter) list = list.filter((p) => geneFilter.ids.has(p.id));
+    return rankPathways(list, query);
+  }, [catalog, category, geneFilter, query]);
+
+  React.useEffect(() => { setActive(0); }, [query, category, geneFilter]);
+
+  function choose(p: PathwayInfo) {
+    onSelect(p.id);
+    setQuery("");
+    setOpen(false);
+  }
+
+  async function lookupGene() {
+    const gene = geneInput.trim();
+    if (!gene) { setGeneFilter(null); return; }
+    setGeneBusy(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/kegg/pathways?org=${encodeURIComponent(org)}&gene=${encodeURIComponent(gene)}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error || `Gene lookup failed (${res.status})`);
+      if (!body.gene?.ids?.length) setError(`No ${org} gene named ${gene}`);
+      setGeneFilter({ gene, ids: new Set((body.pathways || []).map((p: PathwayInfo) => p.id)) });
+      setOpen(true);
+    } catch (err: any) {
+      setError(err.message || "Gene lookup failed");
+    } finally {
+      setGeneBusy(false);
+    }
+  }
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500";
+
+  return (
+    <div ref={rootRef} className={`relative space-y-2 ${className}`}>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setOpen(true); }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown") { e.preventDefault(); setActive((i) => Math.min(i + 1, Math.min(results.length, MAX_RESULTS) - 1)); }
+          else if (e.key === "ArrowUp") { e.preventDefault(); setActive((i) => Math.max(i - 1, 0)); }
+          else if (e.key === "Enter" && results[active]) { e.preventDefault(); choose(results[active]); }
+          else if (e.key === "Escape") setOpen(false);
+        }}
+        className={inputClass}
+        placeholder={loading ? "Loading pathways..." : `Search ${catalog.length || ""} pathways by name, ID or category`}
+      />
+      <select value={category} onChange={(e) => { setCategory(e.target.value); setOpen(true); }} className={`${inputClass} text-sm`}>
+        <option value="">All categories</option>
+        {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+      </select>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={geneInput}
+          onChange={(e) => setGeneInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") lookupGene(); }}
+          className={`${inputClass} text-sm`}
+          placeholder="Pathways containing gene, e.g. TP53"
+        />
+        <button onClick={lookupGene} disabled={geneBusy} className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-700 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">{geneBusy ? "..." : "Find"}</button>
+      </div>
+      {geneFilter ? (
+        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+          <span>{geneFilter.ids.size} pathway{geneFilter.ids.size === 1 ? "" : "s"} contain {geneFilter.gene}</span>
+          <button onClick={() => { setGeneFilter(null); setGeneInput(""); }} className="underline hover:text-gray-900 dark:hover:text-white">Clear</button>
+        </div>
+      ) : null}
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {current ? <>Current: <span className="font-medium">{current.name}</span>{current.category ? ` · ${current.subcategory || current.category}` : ""}</> : null}
+        {error ? <div className="text-red-600 dark:text-red-400">{error}</div> : null}
+      </div>
+      {open && (query.trim() || category || geneFilter) ? (
+        <ul className="absolute z-20 left-0 right-0 top-11 max-h-80 overflow-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg text-sm">
+          {results.slice(0, MAX_RESULTS).map((p, i) => (
+            <li
+              key={p.id}
+              onMouseDown={(e) => { e.preventDefault(); choose(p); }}
+              onMouseEnter={() => setActive(i)}
+              className={`px-3 py-2 cursor-pointer ${i === active ? "bg-blue-50 dark:bg-gray-800" : ""} ${p.id === value ? "font-medium" : ""}`}
+            >
+              <div className="flex justify-between gap-2">
+                <span className="truncate">{p.name}</span>
+                <span className="text-gray-500 dark:text-gray-400 shrink-0">{p.id}</span>
+              </div>
+              {p.category ? <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{p.category}{p.subcategory ? ` › ${p.subcategory}` : ""}</div> : null}
+            </li>
+          ))}
+          {!results.length ? <li className="px-3 py-2 text-gray-500 dark:text-gray-400">{loading ? "Loading..." : "No matching pathways"}</li> : null}
+          {results.length > MAX_RESULTS ? <li className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400">{results.length - MAX_RESULTS} more, refine the search</li> : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}